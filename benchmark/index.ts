@@ -0,0 +1,78 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { MemoryFileSystem, Path } from "openrct2-lib-persistence";
+
+// Declare arbitrary data type for this benchmark, similar to a small template.
+type Data = {
+    name: string,
+    tiles: number[],
+};
+
+// The size of the tree: FOLDERS folders with FILES files each.
+const FOLDERS = 50;
+const FILES = 100;
+// The number of repetitions of each scenario.
+const REPETITIONS = 5;
+
+function createTree(fs: MemoryFileSystem<Data>): Path<Data> {
+    const root = Path.getRoot(fs);
+    for (let folder = 0; folder < FOLDERS; folder++)
+        for (let file = 0; file < FILES; file++)
+            root.getChild(`folder ${folder}`).getChild(`file ${file}`).createFile({
+                name: `template ${folder}/${file}`,
+                tiles: [folder, file, folder * file],
+            });
+    return root;
+}
+
+// Lists all folders and their children like a file browser window does.
+function browse(root: Path<Data>): number {
+    let count = 0;
+    (root.getChildren() || []).forEach(folder => {
+        (folder.getChildren({ sortBy: "name", foldersFirst: true }) || []).forEach(child => {
+            child.getName();
+            child.isFile() && child.getMetadata() && count++;
+        });
+    });
+    return count;
+}
+
+// Reads the data of all files.
+function read(root: Path<Data>): number {
+    let count = 0;
+    root.walk(path => {
+        path.getData() && count++;
+    });
+    return count;
+}
+
+// Searches for files by name.
+function search(root: Path<Data>): number {
+    return root.glob("**/file 4?").length;
+}
+
+function measure(operation: () => unknown): number {
+    const start = Date.now();
+    for (let idx = 0; idx < REPETITIONS; idx++)
+        operation();
+    return (Date.now() - start) / REPETITIONS;
+}
+
+const uncached = createTree(new MemoryFileSystem<Data>());
+const cached = createTree(new MemoryFileSystem<Data>({ cache: true }));
+
+console.log(`Tree with ${FOLDERS} folders and ${FOLDERS * FILES} files, average of ${REPETITIONS} runs:`);
+[
+    { name: "browse", scenario: browse },
+    { name: "read", scenario: read },
+    { name: "search", scenario: search },
+].forEach(({ name, scenario }) => {
+    const withoutCache = measure(() => scenario(uncached));
+    const withCache = measure(() => scenario(cached));
+    console.log(`${name}: ${withoutCache.toFixed(1)} ms without cache, ${withCache.toFixed(1)} ms with cache (${(withoutCache / Math.max(withCache, 0.1)).toFixed(1)}x faster)`);
+});
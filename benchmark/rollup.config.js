@@ -0,0 +1,14 @@
+import resolve from "@rollup/plugin-node-resolve";
+import typescript from "@rollup/plugin-typescript";
+
+export default {
+	input: "./index.ts",
+	output: {
+		format: "cjs",
+		file: `./build/openrct2-lib-persistence-benchmark.js`,
+	},
+	plugins: [
+		resolve(),
+		typescript(),
+	],
+};
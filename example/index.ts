@@ -19,7 +19,7 @@ type Data = {
 const fs = new JsonFileSystem<Data>("lib-persistence.example");
 
 // Set up a FileSystemWatcher.
-const unwatchCallback = fs.watch(path => console.log(`${path} has changed`));
+const unwatchCallback = fs.watch(event => console.log(`${event.path} was ${event.type}`));
 
 // Do not directly use any other FileSystem methods other than those above.
 // From now on, we only use the Path API.
@@ -0,0 +1,12 @@
+import typescript from "@rollup/plugin-typescript";
+
+export default {
+	input: "./test/index.ts",
+	output: {
+		file: "./build/openrct2-lib-persistence.test.cjs",
+		format: "cjs",
+	},
+	plugins: [
+		typescript(),
+	],
+};
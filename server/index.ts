@@ -0,0 +1,55 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import * as fs from "fs";
+import * as net from "net";
+import { ConfigurationMock, FileSystemServer, StorageFileSystem } from "openrct2-lib-persistence";
+
+// Usage: npm start -- [port] [file]
+const PORT = Number(process.argv[2]) || 8080;
+const FILE = process.argv[3] || "./storage.json";
+
+// Stores the file system in a JSON file, which is written after each change.
+class DiskFileSystem extends StorageFileSystem<unknown> {
+    private readonly file: string;
+    // an in-memory storage with JS dot notation keys, like the shared storage of the game
+    private readonly storage: ConfigurationMock;
+
+    public constructor(file: string) {
+        super("disk");
+        this.file = file;
+        this.storage = new ConfigurationMock(fs.existsSync(file) ? fs.readFileSync(file, "utf8") : undefined);
+    }
+
+    protected has(key: string): boolean {
+        return this.storage.has(key);
+    }
+
+    protected get<S>(key: string): S | undefined {
+        return this.storage.get<S>(key);
+    }
+
+    protected set<S>(key: string, value: S): void {
+        this.storage.set(key, value);
+        fs.writeFileSync(this.file, this.storage.stringify(4));
+    }
+}
+
+const disk = new DiskFileSystem(FILE);
+
+net.createServer(socket => {
+    const client = `${socket.remoteAddress}:${socket.remotePort}`;
+    console.log(`${client} connected`);
+    socket.setEncoding("utf8");
+    const server = new FileSystemServer(disk, data => socket.write(data));
+    socket.on("data", data => server.receive(String(data)));
+    socket.on("error", error => console.log(`${client}: ${error.message}`));
+    socket.on("close", () => {
+        server.close();
+        console.log(`${client} disconnected`);
+    });
+}).listen(PORT, () => console.log(`Serving ${FILE} on port ${PORT}`));
@@ -0,0 +1,15 @@
+import resolve from "@rollup/plugin-node-resolve";
+import typescript from "@rollup/plugin-typescript";
+
+export default {
+	input: "./index.ts",
+	external: ["fs", "net"],
+	output: {
+		format: "cjs",
+		file: `./build/openrct2-lib-persistence-server.js`,
+	},
+	plugins: [
+		resolve(),
+		typescript(),
+	],
+};
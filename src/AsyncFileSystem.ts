@@ -0,0 +1,139 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { Attributes, FileSystemWatcher, Metadata, Result } from "./FileSystem";
+
+/** A callback function that receives the result of an asynchronous operation. */
+export type Callback<S> = (value: S) => void;
+
+/** A modifying operation, which can be executed as part of a transaction of an AsyncFileSystem. */
+export type Operation<T> =
+    { type: "createFolder", path: string } |
+    { type: "createFile", path: string, data: T } |
+    { type: "createLink", path: string, target: string } |
+    { type: "delete", path: string } |
+    { type: "copy", src: string, dst: string } |
+    { type: "move", src: string, dst: string } |
+    { type: "rename", path: string, name: string } |
+    { type: "setData", path: string, data: T, revision?: string } |
+    { type: "setAttributes", path: string, attributes: Attributes } |
+    { type: "setOrder", path: string, children: string[] };
+
+/**
+    A file system whose operations are asynchronous, e.g. because the data is stored on a server.
+    It mirrors the FileSystem interface, but each operation passes its result to a callback instead of returning it.
+    The modifying operations pass a Result, so there are no separate variants with the try prefix.
+    Paths are references, i.e. escaped absolute path strings like "/templates/rides", which are the same
+    for all asynchronous file systems and which can be resolved in a synchronous file system by Path.fromReference.
+    Links are followed like in a FileSystem.
+    The generic parameter <T> represents the data format of files.
+*/
+export interface AsyncFileSystem<T> {
+
+    // GENERAL FILE SYSTEM METHODS
+
+    /** Gets the root path of the file system. */
+    getRoot(): string;
+
+    /**
+        Adds a file system watcher to the file system.
+        Each watcher gets notified by the changes to the files and folders, like the watchers of a FileSystem.
+        Returns a callback to unwatch.
+    */
+    watch(watcher: FileSystemWatcher): () => void;
+
+
+    // PATHS
+
+    /** Gets the name of the file or folder at a path. */
+    getName(path: string): string;
+
+    /** Gets the parent path of a path. Returns undefined if the path is the root path. */
+    getParent(path: string): string | undefined;
+
+    /** Gets the path of a file or folder with a given parent and name. */
+    getChild(parent: string, name: string): string;
+
+
+    // FILE & FOLDER INFORMATION
+
+    /** Checks if the file or folder at a path exists. */
+    exists(path: string, callback: Callback<boolean>): void;
+
+    /** Checks if the path represents a folder. */
+    isFolder(path: string, callback: Callback<boolean>): void;
+
+    /** Checks if the path represents a file. */
+    isFile(path: string, callback: Callback<boolean>): void;
+
+    /** Gets contained files (in their persisted order) if path represents a folder and undefined otherwise. */
+    getChildren(path: string, callback: Callback<string[] | undefined>): void;
+
+    /** Gets data of file if path represent a file and undefined otherwise. */
+    getData(path: string, callback: Callback<T | undefined>): void;
+
+    /** Gets the metadata of the file or folder at a path, or undefined if it does not exist. */
+    getMetadata(path: string, callback: Callback<Metadata | undefined>): void;
+
+    /** Checks if the path represents a link. */
+    isLink(path: string, callback: Callback<boolean>): void;
+
+    /** Gets the path to which the link at a path points, or undefined if the path is not a link. The target might not exist. */
+    getLinkTarget(path: string, callback: Callback<string | undefined>): void;
+
+
+    // FILE & FOLDER CREATION AND DELETION
+
+    /** Creates a folder at a path. */
+    createFolder(path: string, callback?: Callback<Result>): void;
+
+    /** Creates a file with given data at a path. */
+    createFile(path: string, data: T, callback?: Callback<Result>): void;
+
+    /** Deletes the file or folder at a path. */
+    delete(path: string, callback?: Callback<Result>): void;
+
+    /** Creates a link at a path that points to a target path, which does not need to exist. */
+    createLink(path: string, target: string, callback?: Callback<Result>): void;
+
+
+    // FILE & FOLDER MODIFICATION
+
+    /** Copies a file or folder from a source path to a destination path. */
+    copy(src: string, dst: string, callback?: Callback<Result>): void;
+
+    /** Moves a file or folder from a source path to a destination path. */
+    move(src: string, dst: string, callback?: Callback<Result>): void;
+
+    /** Renames a file or folder at a path. */
+    rename(path: string, name: string, callback?: Callback<Result>): void;
+
+    /**
+        Sets the data of the file at a path.
+        If a revision is given, then the operation fails if the file was changed since that revision was read from its metadata.
+    */
+    setData(path: string, data: T, revision?: string, callback?: Callback<Result>): void;
+
+    /** Sets the user-defined attributes of the file or folder at a path. */
+    setAttributes(path: string, attributes: Attributes, callback?: Callback<Result>): void;
+
+    /**
+        Sets the order of the children of the folder at a path. The given children are ordered first,
+        followed by the remaining children in their previous order.
+    */
+    setOrder(path: string, children: string[], callback?: Callback<Result>): void;
+
+
+    // TRANSACTIONS
+
+    /**
+        Executes operations as one atomic transaction.
+        If any operation fails, then all changes are rolled back and the result of the failed operation is passed to the callback.
+        Otherwise, the changes are committed and the watchers are notified by one transaction event.
+    */
+    transaction(operations: Operation<T>[], callback?: Callback<Result>): void;
+}
@@ -0,0 +1,31 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { Callback } from "./AsyncFileSystem";
+import { FileSystem } from "./FileSystem";
+import { handleRequest, mapToReferences, Request } from "./Protocol";
+import { ProtocolFileSystem } from "./ProtocolFileSystem";
+
+/**
+    Implements an asynchronous file system on top of a synchronous file system, e.g. a JsonFileSystem.
+    The callbacks are called immediately. It can be used to write code against the AsyncFileSystem interface
+    that works with both local and remote file systems.
+*/
+export class AsyncFileSystemAdapter<T> extends ProtocolFileSystem<T> {
+    private readonly fs: FileSystem<T>;
+
+    /** Constructs a new AsyncFileSystemAdapter for a file system. */
+    public constructor(fs: FileSystem<T>) {
+        super();
+        this.fs = fs;
+        fs.watch(event => this.notify(mapToReferences(fs, event)));
+    }
+
+    protected send(request: Request<T>, callback: Callback<unknown>): void {
+        callback(handleRequest(this.fs, request));
+    }
+}
@@ -0,0 +1,192 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { AsyncFileSystem, Callback, Operation } from "./AsyncFileSystem";
+import { Attributes, FileSystemEvent, Metadata, Result } from "./FileSystem";
+import { filterEvent, mapEvent } from "./Events";
+import { resolvePath } from "./PathString";
+import { fail } from "./Result";
+
+/** A callback function for changes of an asynchronous path. */
+export type AsyncPathWatcher<T> = (event: FileSystemEvent<AsyncPath<T>>) => void;
+
+/**
+    A wrapper around a path of an asynchronous file system to provide convenience methods, like Path.
+    There is no guarantee that there actually exists a file or folder at the path.
+    The generic parameter <T> represents the data format of files.
+*/
+export class AsyncPath<T> {
+
+    /** The file system. */
+    private readonly fs: AsyncFileSystem<T>;
+
+    /** The path. */
+    private readonly path: string;
+
+    /** Construct a new AsyncPath on a file system with a given path. */
+    private constructor(fs: AsyncFileSystem<T>, path: string) {
+        this.fs = fs;
+        this.path = path;
+    }
+
+    /** Returns the root of a file system as a path. */
+    public static getRoot<T>(fs: AsyncFileSystem<T>): AsyncPath<T> { return new AsyncPath(fs, fs.getRoot()); }
+
+    /**
+        Resolves a path string relative to a base path, like Path.resolve.
+        Returns undefined if the path string refers to the parent of the root.
+    */
+    public static resolve<T>(base: AsyncPath<T>, text: string): AsyncPath<T> | undefined {
+        const path = resolvePath(base.fs, base.path, text);
+        return path === undefined ? undefined : new AsyncPath(base.fs, path);
+    }
+
+    /** Checks if two paths are equal. */
+    public static equals(fst: AsyncPath<unknown> | undefined, snd: AsyncPath<unknown> | undefined): boolean {
+        if (fst === undefined && snd === undefined)
+            return true;
+        if (fst === undefined || snd === undefined)
+            return false;
+        return fst.fs === snd.fs && fst.path === snd.path;
+    }
+
+    /**
+        Gets the reference of this path, which is an escaped absolute path string like "/templates/rides".
+        It can be resolved in a synchronous file system by Path.fromReference.
+    */
+    public getReference(): string { return this.path; }
+
+    /** Resolves a path string relative to this path. Returns undefined if the path string refers to the parent of the root. */
+    public resolve(text: string): AsyncPath<T> | undefined { return AsyncPath.resolve(this, text); }
+
+    /**
+        Adds a watcher to this path, like Path.watch.
+        Returns a callback to unwatch.
+    */
+    public watch(watcher: AsyncPathWatcher<T>, recursive: boolean = false): () => void {
+        return this.fs.watch(event => {
+            const relevant = filterEvent(this.fs, event, this.path, recursive);
+            relevant && watcher(mapEvent(relevant, path => new AsyncPath(this.fs, path)));
+        });
+    }
+
+
+    // FILE INFORMATION
+
+    /** Gets the name of this file or folder. */
+    public getName(): string { return this.fs.getName(this.path) };
+
+    /** Gets the parent path. Returns undefined if this is the root path. */
+    public getParent(): AsyncPath<T> | undefined {
+        const parent = this.fs.getParent(this.path);
+        return parent === undefined ? undefined : new AsyncPath(this.fs, parent);
+    }
+
+    /** Gets the child path of a file or folder with the given name. */
+    public getChild(name: string): AsyncPath<T> { return new AsyncPath(this.fs, this.fs.getChild(this.path, name)); }
+
+    /** Checks if the file or folder exists. */
+    public exists(callback: Callback<boolean>): void { this.fs.exists(this.path, callback); };
+
+    /** Checks if this path represents a folder. */
+    public isFolder(callback: Callback<boolean>): void { this.fs.isFolder(this.path, callback); };
+
+    /** Checks if this path represents a file. */
+    public isFile(callback: Callback<boolean>): void { this.fs.isFile(this.path, callback); };
+
+    /** Gets contained files (in their persisted order) if this path represents a folder and undefined otherwise. */
+    public getChildren(callback: Callback<AsyncPath<T>[] | undefined>): void {
+        this.fs.getChildren(this.path, children => callback(children && children.map(child => new AsyncPath(this.fs, child))));
+    };
+
+    /** Gets data of file if this path represent a file and undefined otherwise. */
+    public getData(callback: Callback<T | undefined>): void { this.fs.getData(this.path, callback); };
+
+    /** Gets the metadata of this file or folder, or undefined if it does not exist. */
+    public getMetadata(callback: Callback<Metadata | undefined>): void { this.fs.getMetadata(this.path, callback); };
+
+    /** Checks if this path represents a link. */
+    public isLink(callback: Callback<boolean>): void { this.fs.isLink(this.path, callback); };
+
+    /** Gets the path to which this link points, or undefined if this path is not a link. The target might not exist. */
+    public getLinkTarget(callback: Callback<AsyncPath<T> | undefined>): void {
+        this.fs.getLinkTarget(this.path, target => callback(target === undefined ? undefined : new AsyncPath(this.fs, target)));
+    };
+
+    /** Checks if this path represents a broken link, i.e. if its target does not exist or if links form a cycle. */
+    public isBrokenLink(callback: Callback<boolean>): void {
+        this.isLink(link => link ? this.isFile(file => file ? callback(false) : this.isFolder(folder => callback(!folder))) : callback(false));
+    };
+
+
+    // FILE & FOLDER CREATION AND DELETION
+
+    /** Creates a folder at this path. */
+    public createFolder(callback?: Callback<Result>): void { this.fs.createFolder(this.path, callback); }
+
+    /** Creates a file with given data at this path. */
+    public createFile(content: T, callback?: Callback<Result>): void { this.fs.createFile(this.path, content, callback); }
+
+    /** Deletes the file or folder. */
+    public delete(callback?: Callback<Result>): void { this.fs.delete(this.path, callback); };
+
+    /** Creates a link at this path that points to a target path, which must belong to the same file system. */
+    public createLink(target: AsyncPath<T>, callback?: Callback<Result>): void {
+        if (target.fs !== this.fs)
+            return callback && callback(fail("EINVAL", this.path, "Cannot link to another asynchronous file system"));
+        this.fs.createLink(this.path, target.path, callback);
+    };
+
+
+    // FILE & FOLDER MODIFICATION
+
+    /** Copies the file or folder to a destination, which must belong to the same file system. */
+    public copy(destination: AsyncPath<T>, callback?: Callback<Result>): void {
+        if (destination.fs !== this.fs)
+            return callback && callback(fail("EINVAL", this.path, "Cannot copy to another asynchronous file system"));
+        this.fs.copy(this.path, destination.path, callback);
+    };
+
+    /** Moves the file or folder to a destination, which must belong to the same file system. */
+    public move(destination: AsyncPath<T>, callback?: Callback<Result>): void {
+        if (destination.fs !== this.fs)
+            return callback && callback(fail("EINVAL", this.path, "Cannot move to another asynchronous file system"));
+        this.fs.move(this.path, destination.path, callback);
+    };
+
+    /** Renames the file or folder. */
+    public rename(name: string, callback?: Callback<Result>): void { this.fs.rename(this.path, name, callback); };
+
+    /**
+        If this path represents a file, then sets the data of the file.
+        If a revision is given, then the operation fails if the file was changed since that revision was read from its metadata.
+    */
+    public setData(content: T, revision?: string, callback?: Callback<Result>): void { this.fs.setData(this.path, content, revision, callback); };
+
+    /** Sets the user-defined attributes of the file or folder. */
+    public setAttributes(attributes: Attributes, callback?: Callback<Result>): void { this.fs.setAttributes(this.path, attributes, callback); };
+
+    /**
+        If this path represents a folder, then sets the order of its children. The given children are
+        ordered first, followed by the remaining children in their previous order.
+    */
+    public setOrder(children: AsyncPath<T>[], callback?: Callback<Result>): void {
+        const foreign = children.filter(child => child.fs !== this.fs)[0];
+        if (foreign)
+            return callback && callback(fail("EINVAL", this.path, "Not a child of the folder: " + foreign.path));
+        this.fs.setOrder(this.path, children.map(child => child.path), callback);
+    };
+
+
+    // TRANSACTIONS
+
+    /**
+        Executes operations as one atomic transaction on the file system of this path.
+        If any operation fails, then all changes are rolled back.
+    */
+    public transaction(operations: Operation<T>[], callback?: Callback<Result>): void { this.fs.transaction(operations, callback); };
+}
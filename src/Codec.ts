@@ -0,0 +1,122 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { compress, decompress } from "./Compression";
+import { isObject } from "./Objects";
+
+/**
+    Encodes the data of files when they are written and decodes it when they are read.
+    The generic parameter <T> represents the decoded data and <E> represents the encoded data,
+    which must be serializable as JSON.
+*/
+export interface Codec<T = unknown, E = unknown> {
+    /**
+        The identifier of the codec, which is stored together with each file that is encoded by it.
+        It must not contain "+" and it must not change, otherwise existing files cannot be decoded anymore.
+    */
+    readonly id: string;
+
+    /** Encodes data. */
+    encode(data: T): E;
+
+    /** Decodes data. Throws an error if the data cannot be decoded. */
+    decode(data: E): T;
+}
+
+/**
+    Implements a codec that compresses data as a compact string.
+    The compression works best for large data with repetitive structures, e.g. arrays of similar objects.
+*/
+export class CompressionCodec implements Codec<unknown, string> {
+    public readonly id: string = "lzw";
+
+    public encode(data: unknown): string {
+        return compress(JSON.stringify(data));
+    }
+
+    public decode(data: string): unknown {
+        return JSON.parse(decompress(data));
+    }
+}
+
+/** Describes how the instances of a class are serialized. */
+export interface ClassSerializer<C> {
+    /** The class, i.e. its constructor. */
+    type: new (...args: never[]) => C;
+
+    /** Serializes an instance. The result may contain instances of other serializable classes. */
+    serialize(instance: C): unknown;
+
+    /** Deserializes an instance. */
+    deserialize(data: unknown): C;
+}
+
+type SerializedObject = { $class: string, data: unknown };
+
+/**
+    Implements a codec that serializes instances of classes, also if they are nested in other data.
+    Each class is registered by a unique name, which is stored together with the serialized instances.
+*/
+export class ClassCodec implements Codec<unknown, unknown> {
+    public readonly id: string;
+    private readonly classes: { [name: string]: ClassSerializer<unknown> };
+
+    /**
+        Constructs a new ClassCodec with a given identifier for the classes that are registered by name.
+        Neither the names nor the identifier may change, otherwise existing files cannot be decoded anymore.
+    */
+    public constructor(id: string, classes: { [name: string]: ClassSerializer<unknown> }) {
+        this.id = id;
+        this.classes = classes;
+    }
+
+    public encode(data: unknown): unknown {
+        if (!isObject(data))
+            return data;
+        if (Array.isArray(data))
+            return data.map(value => this.encode(value));
+
+        for (const name in this.classes)
+            if (data instanceof this.classes[name].type)
+                return <SerializedObject>{
+                    $class: name,
+                    data: this.encode(this.classes[name].serialize(data)),
+                };
+
+        const object = {} as { [key: string]: unknown };
+        Object.keys(data).forEach(key => object[key] = this.encode(data[key]));
+        // plain objects are only wrapped if they could be mistaken for a serialized instance
+        return object.$class === undefined ? object : <SerializedObject>{
+            $class: "",
+            data: object,
+        };
+    }
+
+    public decode(data: unknown): unknown {
+        if (!isObject(data))
+            return data;
+        if (Array.isArray(data))
+            return data.map(value => this.decode(value));
+
+        const object = {} as { [key: string]: unknown };
+        if (data.$class === undefined) {
+            Object.keys(data).forEach(key => object[key] = this.decode(data[key]));
+            return object;
+        }
+
+        const serialized = <SerializedObject>data;
+        if (serialized.$class === "") {
+            const wrapped = serialized.data as { [key: string]: unknown };
+            Object.keys(wrapped).forEach(key => object[key] = this.decode(wrapped[key]));
+            return object;
+        }
+        const serializer = this.classes[serialized.$class];
+        if (!serializer)
+            throw new Error(`Unknown class ${serialized.$class}.`);
+        return serializer.deserialize(this.decode(serialized.data));
+    }
+}
@@ -0,0 +1,122 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+// compression format
+// LZW with a growing dictionary and growing code width, starting with an empty dictionary
+// codes: 0 (literal, followed by a 16 bit char code), 1 (end), 2+ (dictionary entries)
+// output: 6 bits per char, least significant bit first, using the base64 alphabet
+
+const ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const LITERAL = 0;
+const END = 1;
+const CHAR_WIDTH = 16;
+
+// number of bits needed to write the codes 0, ..., size - 1
+function getWidth(size: number): number {
+    let width = 1;
+    while ((1 << width) < size)
+        width++;
+    return width;
+}
+
+/** Compresses a string to a shorter string that only contains base64 characters. */
+export function compress(text: string): string {
+    const chars = [] as string[];
+    let buffer = 0;
+    let bits = 0;
+    const write = (value: number, width: number) => {
+        for (let idx = 0; idx < width; idx++) {
+            buffer |= ((value >> idx) & 1) << bits;
+            if (++bits === 6) {
+                chars.push(ALPHABET.charAt(buffer));
+                buffer = bits = 0;
+            }
+        }
+    };
+
+    // keys are prefixed, such that they do not collide with properties like __proto__
+    const dictionary: { [key: string]: number } = {};
+    let size = 2;
+    let word = "";
+    for (let idx = 0; idx < text.length; idx++) {
+        const char = text.charAt(idx);
+        if (dictionary["_" + word + char] !== undefined) {
+            word += char;
+            continue;
+        }
+        if (word !== "") {
+            write(dictionary["_" + word], getWidth(size));
+            dictionary["_" + word + char] = size++;
+        }
+        if (dictionary["_" + char] !== undefined)
+            word = char;
+        else {
+            write(LITERAL, getWidth(size));
+            write(char.charCodeAt(0), CHAR_WIDTH);
+            dictionary["_" + char] = size++;
+            word = "";
+        }
+    }
+    if (word !== "")
+        // the decompressor expects a new entry after each dictionary code
+        write(dictionary["_" + word], getWidth(size++));
+    write(END, getWidth(size));
+    bits > 0 && chars.push(ALPHABET.charAt(buffer));
+    return chars.join("");
+}
+
+/** Decompresses a string that was compressed by compress. Throws an error if the string is invalid. */
+export function decompress(text: string): string {
+    let pos = 0;
+    let buffer = 0;
+    let bits = 0;
+    const read = (width: number): number => {
+        let value = 0;
+        for (let idx = 0; idx < width; idx++) {
+            if (bits === 0) {
+                buffer = pos < text.length ? ALPHABET.indexOf(text.charAt(pos++)) : -1;
+                if (buffer === -1)
+                    throw new Error("Invalid compressed data.");
+                bits = 6;
+            }
+            value |= (buffer & 1) << idx;
+            buffer >>= 1;
+            bits--;
+        }
+        return value;
+    };
+
+    const dictionary = [] as string[];
+    const result = [] as string[];
+    // the last word, which is added to the dictionary together with the first char of the next word
+    let previous: string | undefined = undefined;
+    for (; ;) {
+        const size = 2 + dictionary.length + (previous === undefined ? 0 : 1);
+        const code = read(getWidth(size));
+        if (code === END)
+            return result.join("");
+
+        let word: string;
+        if (code === LITERAL) {
+            word = String.fromCharCode(read(CHAR_WIDTH));
+            previous !== undefined && dictionary.push(previous + word);
+            dictionary.push(word);
+            result.push(word);
+            previous = undefined;
+            continue;
+        }
+        if (code - 2 < dictionary.length)
+            word = dictionary[code - 2];
+        else if (code - 2 === dictionary.length && previous !== undefined)
+            word = previous + previous.charAt(0);
+        else
+            throw new Error("Invalid compressed data.");
+        previous !== undefined && dictionary.push(previous + word.charAt(0));
+        result.push(word);
+        previous = word;
+    }
+}
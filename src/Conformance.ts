@@ -0,0 +1,629 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { FileSystem, FileSystemErrorCode, FileSystemEvent, Result } from "./FileSystem";
+
+/** A test of the conformance suite, which throws an error if the file system does not conform to the contract of FileSystem. */
+export interface ConformanceTest {
+    /** The name of the test. */
+    name: string;
+
+    /** Runs the test on a new file system. */
+    run(): void;
+}
+
+/** A test of the conformance suite that failed. */
+export interface ConformanceFailure {
+    /** The name of the test. */
+    name: string;
+
+    /** The reason why the test failed. */
+    message: string;
+}
+
+/** Options for the conformance suite. The generic parameter <T> represents the data format of files. */
+export interface ConformanceOptions<T> {
+    /** Creates distinct data for the files of the tests. By default, it creates objects like { value: 0 }. */
+    createData?: (idx: number) => T;
+
+    /**
+        Gets the folder in which the tests create files and folders, which must be empty.
+        By default, it is the root folder, but e.g. a MountFileSystem only allows files inside of its mounted file systems.
+    */
+    getFolder?: (fs: FileSystem<T>) => string;
+}
+
+// names that are hard to store, e.g. because they contain the separators or escape characters of paths or keys
+const names = [
+    "", " ", ".", "..", "...", ".a", "a.", "a.b", "/", "a/b", "\\", "\\\\", "a\\b", "a\\", "\\a", "\\d", "a\\d", "a\\s", "\\.", "./\\",
+    "__proto__", "constructor", "toString", "hasOwnProperty", "files", "order", "type", "0", "1", "ä €",
+];
+
+function stringify(value: unknown): string {
+    return value === undefined ? "undefined" : JSON.stringify(value);
+}
+
+/** Throws an error with a message if a condition is not met. */
+export function check(condition: boolean, message: string): void {
+    if (!condition)
+        throw new Error(message);
+}
+
+/** Throws an error with a message if two values are not equal when serialized as JSON. */
+export function checkEqual(actual: unknown, expected: unknown, message: string): void {
+    check(stringify(actual) === stringify(expected), `${message}: expected ${stringify(expected)}, but got ${stringify(actual)}`);
+}
+
+function checkResult(result: Result, message: string, code?: FileSystemErrorCode, path?: string): void {
+    if (code === undefined)
+        return check(result.ok, `${message}: expected success, but got ${result.ok ? "" : result.error.code}`);
+    check(!result.ok, `${message}: expected ${code}, but the operation succeeded`);
+    if (!result.ok) {
+        checkEqual(result.error.code, code, message);
+        path === undefined || checkEqual(result.error.path, path, `${message} (path)`);
+    }
+}
+
+// records all events of a file system
+function record(fs: FileSystem<unknown>): FileSystemEvent[] {
+    const events = [] as FileSystemEvent[];
+    fs.watch(event => events.push(event));
+    return events;
+}
+
+// gets a folder and all files and folders in it by their names relative to the folder, with their data
+function list<T>(fs: FileSystem<T>, path: string): { [names: string]: T | undefined } {
+    const result: { [names: string]: T | undefined } = {};
+    const visit = (path: string, names: string[]) => {
+        result[JSON.stringify(names)] = fs.getData(path);
+        (fs.getChildren(path) || []).forEach(child => visit(child, names.concat(fs.getName(child))));
+    };
+    visit(path, []);
+    return result;
+}
+
+/**
+    Gets the tests of the conformance suite, which check if a file system conforms to the contract of FileSystem,
+    e.g. how names are preserved, when operations fail and how watchers are notified.
+    Each test calls createFileSystem to get a new, empty file system.
+*/
+export function getConformanceTests<T>(createFileSystem: () => FileSystem<T>, options: ConformanceOptions<T> = {}): ConformanceTest[] {
+    const createData = options.createData || (idx => <T><unknown>{ value: idx });
+    const getFolder = options.getFolder || (fs => fs.getRoot());
+
+    const tests: ConformanceTest[] = [];
+    const test = (name: string, run: (fs: FileSystem<T>, folder: string) => void) => tests.push({
+        name: name,
+        run: () => {
+            const fs = createFileSystem();
+            run(fs, getFolder(fs));
+        },
+    });
+
+
+    // FILE & FOLDER INFORMATION
+
+    test("the folder is empty", (fs, folder) => {
+        check(fs.exists(folder), "The folder does not exist");
+        check(fs.isFolder(folder), "The folder is not a folder");
+        check(!fs.isFile(folder), "The folder is a file");
+        checkEqual(fs.getChildren(folder), [], "The children of the folder");
+        checkEqual(fs.getData(folder), undefined, "The data of the folder");
+        checkEqual(fs.getParent(fs.getRoot()), undefined, "The parent of the root");
+    });
+
+    test("missing files have no information", (fs, folder) => {
+        const path = fs.getChild(folder, "missing");
+        check(!fs.exists(path), "The file exists");
+        check(!fs.isFolder(path) && !fs.isFile(path), "The file is a file or folder");
+        checkEqual(fs.getChildren(path), undefined, "The children of the file");
+        checkEqual(fs.getData(path), undefined, "The data of the file");
+        checkEqual(fs.getMetadata(path), undefined, "The metadata of the file");
+    });
+
+    test("names are preserved", (fs, folder) => {
+        names.forEach((name, idx) => {
+            const path = fs.getChild(folder, name);
+            checkEqual(fs.getChild(folder, name), path, `The path of ${stringify(name)}`);
+            checkEqual(fs.getName(path), name, `The name of ${stringify(name)}`);
+            checkEqual(fs.getParent(path), folder, `The parent of ${stringify(name)}`);
+            checkResult(fs.tryCreateFile(path, createData(idx)), `Creating ${stringify(name)}`);
+        });
+        names.forEach((name, idx) => {
+            const path = fs.getChild(folder, name);
+            check(fs.isFile(path), `${stringify(name)} is not a file`);
+            checkEqual(fs.getData(path), createData(idx), `The data of ${stringify(name)}`);
+        });
+        const children = (fs.getChildren(folder) || []).map(child => fs.getName(child));
+        checkEqual(children.sort(), names.slice().sort(), "The names of the children");
+    });
+
+    test("names are preserved in nested folders", (fs, folder) => {
+        const paths = [folder];
+        names.forEach(name => paths.push(fs.getChild(paths[paths.length - 1], name)));
+        const path = fs.getChild(paths[paths.length - 1], "file");
+        checkResult(fs.tryCreateFile(path, createData(0)), "Creating the file");
+        checkEqual(fs.getData(path), createData(0), "The data of the file");
+        for (let idx = paths.length - 1; idx > 0; idx--) {
+            check(fs.isFolder(paths[idx]), `${stringify(names[idx - 1])} is not a folder`);
+            checkEqual(fs.getName(paths[idx]), names[idx - 1], "The name of the folder");
+            checkEqual(fs.getParent(paths[idx]), paths[idx - 1], `The parent of ${stringify(names[idx - 1])}`);
+            checkEqual(fs.getChildren(paths[idx - 1]), [paths[idx]], `The children of the parent of ${stringify(names[idx - 1])}`);
+        }
+    });
+
+
+    // FILE & FOLDER CREATION AND DELETION
+
+    test("files can be created", (fs, folder) => {
+        const path = fs.getChild(folder, "file");
+        const events = record(fs);
+        check(fs.createFile(path, createData(0)), "Creating the file failed");
+        check(fs.exists(path) && fs.isFile(path) && !fs.isFolder(path), "The file is not a file");
+        checkEqual(fs.getChildren(path), undefined, "The children of the file");
+        checkEqual(fs.getData(path), createData(0), "The data of the file");
+        checkEqual(fs.getChildren(folder), [path], "The children of the folder");
+        checkEqual(events, [{ type: "created", path: path }], "The events");
+    });
+
+    test("folders can be created", (fs, folder) => {
+        const path = fs.getChild(folder, "folder");
+        const events = record(fs);
+        check(fs.createFolder(path), "Creating the folder failed");
+        check(fs.exists(path) && fs.isFolder(path) && !fs.isFile(path), "The folder is not a folder");
+        checkEqual(fs.getChildren(path), [], "The children of the folder");
+        checkEqual(fs.getData(path), undefined, "The data of the folder");
+        checkEqual(events, [{ type: "created", path: path }], "The events");
+    });
+
+    test("data is not shared with the caller", (fs, folder) => {
+        const path = fs.getChild(folder, "file");
+        const data = createData(0);
+        fs.createFile(path, data);
+        if (typeof data !== "object" || data === null)
+            return;
+        (<{ [key: string]: unknown }><unknown>data)["modified"] = true;
+        checkEqual(fs.getData(path), createData(0), "The data after modifying the created data");
+        (<{ [key: string]: unknown }>fs.getData(path))["modified"] = true;
+        checkEqual(fs.getData(path), createData(0), "The data after modifying the read data");
+    });
+
+    test("missing parent folders are created", (fs, folder) => {
+        const a = fs.getChild(folder, "a");
+        const b = fs.getChild(a, "b");
+        const path = fs.getChild(b, "file");
+        const events = record(fs);
+        checkResult(fs.tryCreateFile(path, createData(0)), "Creating the file");
+        check(fs.isFolder(a) && fs.isFolder(b), "The parent folders are not folders");
+        checkEqual(fs.getData(path), createData(0), "The data of the file");
+        checkEqual(events, [
+            { type: "created", path: a },
+            { type: "created", path: b },
+            { type: "created", path: path },
+        ], "The events");
+    });
+
+    test("existing files are not overwritten", (fs, folder) => {
+        const file = fs.getChild(folder, "file");
+        const subfolder = fs.getChild(folder, "folder");
+        fs.createFile(file, createData(0));
+        fs.createFolder(subfolder);
+        const events = record(fs);
+        checkResult(fs.tryCreateFile(file, createData(1)), "Creating an existing file", "EEXIST", file);
+        checkResult(fs.tryCreateFolder(file), "Creating a folder at an existing file", "EEXIST", file);
+        checkResult(fs.tryCreateFile(subfolder, createData(1)), "Creating a file at an existing folder", "EEXIST", subfolder);
+        checkResult(fs.tryCreateFolder(subfolder), "Creating an existing folder", "EEXIST", subfolder);
+        checkEqual(fs.getData(file), createData(0), "The data of the file");
+        checkEqual(events, [], "The events");
+    });
+
+    test("files cannot contain files", (fs, folder) => {
+        const file = fs.getChild(folder, "file");
+        fs.createFile(file, createData(0));
+        const child = fs.getChild(file, "child");
+        const events = record(fs);
+        checkResult(fs.tryCreateFile(child, createData(1)), "Creating a file in a file", "ENOTDIR", file);
+        checkResult(fs.tryCreateFolder(fs.getChild(child, "child")), "Creating a folder in a file", "ENOTDIR", file);
+        checkEqual(fs.getData(file), createData(0), "The data of the file");
+        checkEqual(events, [], "The events");
+    });
+
+    test("folders are deleted with their content", (fs, folder) => {
+        const path = fs.getChild(folder, "folder");
+        const file = fs.getChild(fs.getChild(path, "sub"), "file");
+        fs.createFile(file, createData(0));
+        const events = record(fs);
+        checkResult(fs.tryDelete(path), "Deleting the folder");
+        check(!fs.exists(path) && !fs.exists(file), "The folder or its content exists");
+        checkEqual(fs.getChildren(folder), [], "The children of the folder");
+        checkEqual(events, [{ type: "deleted", path: path }], "The events");
+        checkResult(fs.tryDelete(path), "Deleting the folder again", "ENOENT", path);
+        checkEqual(events.length, 1, "The number of events");
+    });
+
+    test("deep trees are supported", (fs, folder) => {
+        let path = folder;
+        for (let idx = 0; idx < 32; idx++)
+            path = fs.getChild(path, idx % 2 ? "a.b" : String(idx));
+        checkResult(fs.tryCreateFile(path, createData(0)), "Creating the file");
+        checkEqual(fs.getData(path), createData(0), "The data of the file");
+        let depth = 0;
+        for (let parent = path; parent !== folder; parent = <string>fs.getParent(parent))
+            depth++;
+        checkEqual(depth, 32, "The depth of the file");
+        const top = fs.getChild(folder, "0");
+        const copy = fs.getChild(folder, "copy");
+        checkResult(fs.tryCopy(top, copy), "Copying the tree");
+        checkEqual(Object.keys(list(fs, copy)).length, 32, "The number of copied files and folders");
+        checkResult(fs.tryDelete(top), "Deleting the tree");
+        check(!fs.exists(path), "The file exists after deleting the tree");
+    });
+
+
+    // FILE & FOLDER MODIFICATION
+
+    test("files and folders can be copied", (fs, folder) => {
+        const src = fs.getChild(folder, "src");
+        const dst = fs.getChild(folder, "dst");
+        fs.createFile(fs.getChild(src, "file"), createData(0));
+        fs.createFile(fs.getChild(fs.getChild(src, "a.b"), "\\"), createData(1));
+        const before = list(fs, src);
+        const events = record(fs);
+        checkResult(fs.tryCopy(src, dst), "Copying the folder");
+        checkEqual(list(fs, src), before, "The source");
+        checkEqual(list(fs, dst), list(fs, src), "The copy");
+        checkEqual(events, [{ type: "copied", path: dst, sourcePath: src }], "The events");
+        fs.setData(fs.getChild(dst, "file"), createData(2));
+        checkEqual(fs.getData(fs.getChild(src, "file")), createData(0), "The data of the source after changing the copy");
+    });
+
+    test("copying fails for invalid paths", (fs, folder) => {
+        const src = fs.getChild(folder, "src");
+        const file = fs.getChild(folder, "file");
+        const missing = fs.getChild(folder, "missing");
+        fs.createFolder(src);
+        fs.createFile(file, createData(0));
+        const events = record(fs);
+        checkResult(fs.tryCopy(missing, fs.getChild(folder, "dst")), "Copying a missing file", "ENOENT", missing);
+        checkResult(fs.tryCopy(src, file), "Copying to an existing file", "EEXIST", file);
+        checkResult(fs.tryCopy(src, fs.getChild(file, "dst")), "Copying into a file", "ENOTDIR", file);
+        checkEqual(events, [], "The events");
+    });
+
+    test("files and folders can be moved", (fs, folder) => {
+        const src = fs.getChild(folder, "src");
+        const dst = fs.getChild(fs.getChild(folder, "folder"), "dst");
+        fs.createFile(fs.getChild(src, "file"), createData(0));
+        fs.createFolder(fs.getParent(dst) as string);
+        const before = list(fs, src);
+        const events = record(fs);
+        checkResult(fs.tryMove(src, dst), "Moving the folder");
+        check(!fs.exists(src), "The source exists");
+        checkEqual(list(fs, dst), before, "The moved folder");
+        checkEqual(fs.getData(fs.getChild(dst, "file")), createData(0), "The data of the moved file");
+        checkEqual(events, [{ type: "moved", path: dst, oldPath: src }], "The events");
+    });
+
+    test("moving fails for invalid paths", (fs, folder) => {
+        const src = fs.getChild(folder, "src");
+        const file = fs.getChild(folder, "file");
+        const missing = fs.getChild(folder, "missing");
+        fs.createFolder(fs.getChild(src, "sub"));
+        fs.createFile(file, createData(0));
+        const before = list(fs, folder);
+        const events = record(fs);
+        checkResult(fs.tryMove(missing, fs.getChild(folder, "dst")), "Moving a missing file", "ENOENT", missing);
+        checkResult(fs.tryMove(src, file), "Moving to an existing file", "EEXIST", file);
+        checkResult(fs.tryMove(src, fs.getChild(file, "dst")), "Moving into a file", "ENOTDIR", file);
+        checkResult(fs.tryMove(src, fs.getChild(src, "dst")), "Moving a folder into itself", "EINVAL");
+        checkResult(fs.tryMove(src, fs.getChild(fs.getChild(src, "sub"), "dst")), "Moving a folder into its subfolder", "EINVAL");
+        checkEqual(list(fs, folder), before, "The files and folders");
+        checkEqual(events, [], "The events");
+    });
+
+    test("files and folders can be renamed", (fs, folder) => {
+        const path = fs.getChild(folder, "folder");
+        fs.createFile(fs.getChild(path, "file"), createData(0));
+        const events = record(fs);
+        let current = path;
+        names.forEach(name => {
+            const renamed = fs.getChild(folder, name);
+            checkResult(fs.tryRename(current, name), `Renaming to ${stringify(name)}`);
+            check(!fs.exists(current) && fs.isFolder(renamed), `The folder was not renamed to ${stringify(name)}`);
+            checkEqual(fs.getData(fs.getChild(renamed, "file")), createData(0), `The data of the file after renaming to ${stringify(name)}`);
+            checkEqual(events.pop(), { type: "renamed", path: renamed, oldPath: current }, `The event of renaming to ${stringify(name)}`);
+            current = renamed;
+        });
+        checkEqual(fs.getChildren(folder), [current], "The children of the folder");
+    });
+
+    test("renaming fails for invalid names", (fs, folder) => {
+        const a = fs.getChild(folder, "a");
+        const b = fs.getChild(folder, "b");
+        fs.createFile(a, createData(0));
+        fs.createFile(b, createData(1));
+        const events = record(fs);
+        checkResult(fs.tryRename(a, "b"), "Renaming to an existing name", "EEXIST", b);
+        checkResult(fs.tryRename(fs.getChild(folder, "missing"), "c"), "Renaming a missing file", "ENOENT");
+        check(!fs.tryRename(fs.getRoot(), "root").ok, "Renaming the root succeeded");
+        checkEqual(fs.getData(a), createData(0), "The data of the file");
+        checkEqual(events, [], "The events");
+    });
+
+    test("data can be set", (fs, folder) => {
+        const path = fs.getChild(folder, "file");
+        fs.createFile(path, createData(0));
+        const created = (fs.getMetadata(path) || { created: undefined }).created;
+        const events = record(fs);
+        checkResult(fs.trySetData(path, createData(1)), "Setting the data");
+        checkEqual(fs.getData(path), createData(1), "The data of the file");
+        checkEqual((fs.getMetadata(path) || { created: undefined }).created, created, "The creation time of the file");
+        checkEqual(events, [{ type: "dataChanged", path: path }], "The events");
+        checkResult(fs.trySetData(folder, createData(2)), "Setting the data of a folder", "EISDIR", folder);
+        checkResult(fs.trySetData(fs.getChild(folder, "missing"), createData(2)), "Setting the data of a missing file", "ENOENT");
+        checkEqual(events.length, 1, "The number of events");
+    });
+
+    test("revisions detect concurrent changes", (fs, folder) => {
+        const path = fs.getChild(folder, "file");
+        fs.createFile(path, createData(0));
+        const revision = (fs.getMetadata(path) as { revision: string }).revision;
+        checkResult(fs.trySetData(path, createData(1), revision), "Setting the data with the current revision");
+        checkResult(fs.trySetData(path, createData(2), revision), "Setting the data with an old revision", "ESTALE", path);
+        checkEqual(fs.getData(path), createData(1), "The data of the file");
+        const attributes = (fs.getMetadata(path) as { revision: string }).revision;
+        fs.setAttributes(path, { changed: true });
+        check((fs.getMetadata(path) as { revision: string }).revision !== attributes, "The revision did not change with the attributes");
+    });
+
+    test("attributes are preserved", (fs, folder) => {
+        const path = fs.getChild(folder, "file");
+        fs.createFile(path, createData(0));
+        checkEqual((fs.getMetadata(path) || {}).attributes, {}, "The initial attributes");
+        const events = record(fs);
+        const attributes = { author: "Sadret", tags: ["a", "b"], nested: { "a.b": 1 } };
+        checkResult(fs.trySetAttributes(path, attributes), "Setting the attributes");
+        checkEqual(events, [{ type: "attributesChanged", path: path }], "The events");
+        fs.setData(path, createData(1));
+        checkEqual((fs.getMetadata(path) || {}).attributes, attributes, "The attributes after setting the data");
+        const renamed = fs.getChild(folder, "renamed");
+        fs.rename(path, "renamed");
+        checkEqual((fs.getMetadata(renamed) || {}).attributes, attributes, "The attributes after renaming");
+        checkResult(fs.trySetAttributes(path, {}), "Setting the attributes of a missing file", "ENOENT", path);
+    });
+
+    test("children can be ordered", (fs, folder) => {
+        const paths = ["a", "b", "c", "d"].map(name => fs.getChild(folder, name));
+        paths.forEach((path, idx) => fs.createFile(path, createData(idx)));
+        const initial = fs.getChildren(folder) as string[];
+        const events = record(fs);
+        checkResult(fs.trySetOrder(folder, [paths[2], paths[0]]), "Setting the order");
+        const expected = [paths[2], paths[0]].concat(initial.filter(path => path !== paths[2] && path !== paths[0]));
+        checkEqual(fs.getChildren(folder), expected, "The children after setting the order");
+        checkEqual(events, [{ type: "reordered", path: folder }], "The events");
+        fs.rename(paths[0], "e");
+        expected[1] = fs.getChild(folder, "e");
+        checkEqual(fs.getChildren(folder), expected, "The children after renaming a child");
+        checkResult(fs.trySetOrder(folder, [paths[1], paths[1]]), "Setting the order with a duplicate", "EINVAL");
+        checkResult(fs.trySetOrder(folder, [fs.getChild(folder, "missing")]), "Setting the order with a missing child", "EINVAL");
+        checkResult(fs.trySetOrder(paths[1], []), "Setting the order of a file", "ENOTDIR", paths[1]);
+        checkEqual(fs.getChildren(folder), expected, "The children after failed operations");
+    });
+
+    test("the order is kept when copying", (fs, folder) => {
+        const src = fs.getChild(folder, "src");
+        const paths = ["a", "b", "c"].map(name => fs.getChild(src, name));
+        paths.forEach((path, idx) => fs.createFile(path, createData(idx)));
+        fs.setOrder(src, [paths[2], paths[1], paths[0]]);
+        const dst = fs.getChild(folder, "dst");
+        fs.copy(src, dst);
+        checkEqual((fs.getChildren(dst) || []).map(path => fs.getName(path)), ["c", "b", "a"], "The children of the copy");
+    });
+
+
+    // LINKS
+
+    test("links follow their targets", (fs, folder) => {
+        const file = fs.getChild(folder, "file");
+        const sub = fs.getChild(folder, "folder");
+        const fileLink = fs.getChild(folder, "file link");
+        const folderLink = fs.getChild(folder, "folder link");
+        fs.createFile(file, createData(0));
+        fs.createFile(fs.getChild(sub, "a"), createData(1));
+        fs.createFile(fs.getChild(sub, "b"), createData(2));
+        const events = record(fs);
+        checkResult(fs.tryCreateLink(fileLink, file), "Creating a link to a file");
+        checkResult(fs.tryCreateLink(folderLink, sub), "Creating a link to a folder");
+        checkEqual(events, [{ type: "created", path: fileLink }, { type: "created", path: folderLink }], "The events of the creation");
+        check(fs.exists(fileLink) && fs.isLink(fileLink) && fs.isFile(fileLink) && !fs.isFolder(fileLink), "The link to the file is not a file");
+        check(fs.exists(folderLink) && fs.isLink(folderLink) && fs.isFolder(folderLink) && !fs.isFile(folderLink), "The link to the folder is not a folder");
+        check(!fs.isLink(file) && !fs.isLink(sub), "The targets are links");
+        checkEqual(fs.getLinkTarget(fileLink), file, "The target of the link to the file");
+        checkEqual(fs.getLinkTarget(file), undefined, "The target of the file");
+        checkEqual(fs.getData(fileLink), createData(0), "The data of the link to the file");
+        checkEqual(fs.getChildren(folderLink), fs.getChildren(sub), "The children of the link to the folder");
+        checkResult(fs.tryCreateLink(fileLink, sub), "Creating an existing link", "EEXIST", fileLink);
+    });
+
+    test("links change their targets", (fs, folder) => {
+        const file = fs.getChild(folder, "file");
+        const sub = fs.getChild(folder, "folder");
+        const fileLink = fs.getChild(folder, "file link");
+        const folderLink = fs.getChild(folder, "folder link");
+        fs.createFile(file, createData(0));
+        ["a", "b"].forEach((name, idx) => fs.createFile(fs.getChild(sub, name), createData(idx + 1)));
+        fs.createLink(fileLink, file);
+        fs.createLink(folderLink, sub);
+        const events = record(fs);
+        const revision = (fs.getMetadata(file) as { revision: string }).revision;
+        checkEqual((fs.getMetadata(fileLink) as { revision: string }).revision, revision, "The revision of the link");
+        checkResult(fs.trySetData(fileLink, createData(3), revision), "Setting the data of a link with the revision of its target");
+        checkEqual(fs.getData(file), createData(3), "The data of the target");
+        checkResult(fs.trySetData(fileLink, createData(4), revision), "Setting the data of a link with an old revision", "ESTALE", fileLink);
+        const children = fs.getChildren(sub) as string[];
+        checkResult(fs.trySetOrder(folderLink, [children[1]]), "Setting the order of a link");
+        checkEqual(fs.getChildren(sub), [children[1], children[0]], "The children of the target");
+        checkEqual(events, [{ type: "dataChanged", path: file }, { type: "reordered", path: sub }], "The events");
+        checkResult(fs.tryCreateFile(fs.getChild(folderLink, "c"), createData(4)), "Creating a file in a link", "ENOTDIR", folderLink);
+        checkEqual(fs.getChildren(sub), [children[1], children[0]], "The children of the target after creating a file in the link");
+        const linkRevision = (fs.getMetadata(fileLink) as { revision: string }).revision;
+        checkResult(fs.trySetData(fileLink, createData(5), linkRevision), "Setting the data of a link with its revision");
+    });
+
+    test("links are changed themselves", (fs, folder) => {
+        const file = fs.getChild(folder, "file");
+        const link = fs.getChild(fs.getChild(folder, "folder"), "link");
+        fs.createFile(file, createData(0));
+        fs.createLink(link, file);
+        checkResult(fs.trySetAttributes(link, { tag: "link" }), "Setting the attributes of the link");
+        checkEqual((fs.getMetadata(file) || {}).attributes, {}, "The attributes of the target");
+        checkEqual((fs.getMetadata(link) || {}).attributes, { tag: "link" }, "The attributes of the link");
+        const copy = fs.getChild(folder, "copy");
+        checkResult(fs.tryCopy(fs.getChild(folder, "folder"), copy), "Copying a folder with the link");
+        checkEqual(fs.getLinkTarget(fs.getChild(copy, "link")), file, "The target of the copied link");
+        checkResult(fs.tryRename(link, "renamed"), "Renaming the link");
+        const renamed = fs.getChild(fs.getChild(folder, "folder"), "renamed");
+        checkEqual(fs.getLinkTarget(renamed), file, "The target of the renamed link");
+        checkResult(fs.tryDelete(renamed), "Deleting the link");
+        check(!fs.exists(renamed) && fs.isFile(file), "The link was not deleted or its target was deleted");
+    });
+
+    test("links can be broken", (fs, folder) => {
+        const file = fs.getChild(folder, "file");
+        const link = fs.getChild(folder, "link");
+        const isBroken = () => fs.isLink(link) && !fs.isFile(link) && !fs.isFolder(link);
+        checkResult(fs.tryCreateLink(link, file), "Creating a link to a missing file");
+        check(fs.exists(link) && isBroken(), "The link is not broken");
+        checkEqual(fs.getData(link), undefined, "The data of the broken link");
+        checkEqual(fs.getChildren(link), undefined, "The children of the broken link");
+        checkResult(fs.trySetData(link, createData(0)), "Setting the data of the broken link", "ENOENT", link);
+        fs.createFile(file, createData(0));
+        check(!isBroken(), "The link is broken after creating its target");
+        fs.rename(file, "renamed");
+        check(isBroken(), "The link is not broken after renaming its target");
+        checkEqual(fs.getLinkTarget(link), file, "The target after renaming it");
+        fs.rename(fs.getChild(folder, "renamed"), "file");
+        fs.delete(file);
+        check(isBroken(), "The link is not broken after deleting its target");
+    });
+
+    test("cycles of links are detected", (fs, folder) => {
+        const a = fs.getChild(folder, "a");
+        const b = fs.getChild(folder, "b");
+        const c = fs.getChild(folder, "c");
+        checkResult(fs.tryCreateLink(a, b), "Creating the first link");
+        checkResult(fs.tryCreateLink(b, a), "Creating the second link");
+        checkResult(fs.tryCreateLink(c, c), "Creating a link to itself");
+        [a, b, c].forEach(path => {
+            check(fs.isLink(path) && !fs.isFile(path) && !fs.isFolder(path), `${fs.getName(path)} is not a broken link`);
+            checkEqual(fs.getData(path), undefined, `The data of ${fs.getName(path)}`);
+            checkEqual(fs.getChildren(path), undefined, `The children of ${fs.getName(path)}`);
+        });
+        fs.delete(b);
+        fs.createFolder(b);
+        check(fs.isFolder(a), "The link does not follow its target after the cycle was removed");
+    });
+
+
+    // TRANSACTIONS
+
+    test("transactions are committed", (fs, folder) => {
+        const sub = fs.getChild(folder, "sub");
+        const events = record(fs);
+        const committed = fs.transaction(() => {
+            fs.createFile(fs.getChild(fs.getChild(sub, "a"), "file"), createData(0));
+            fs.createFolder(fs.getChild(sub, "b"));
+            fs.rename(fs.getChild(sub, "b"), "c");
+        });
+        check(committed, "The transaction was not committed");
+        check(fs.isFile(fs.getChild(fs.getChild(sub, "a"), "file")) && fs.isFolder(fs.getChild(sub, "c")), "The changes are missing");
+        checkEqual(events.length, 1, "The number of events");
+        const event = events[0];
+        checkEqual(event.type, "transaction", "The type of the event");
+        checkEqual(event.path, sub, "The path of the event");
+        checkEqual(event.type === "transaction" && event.events.length, 5, "The number of events of the transaction");
+    });
+
+    test("transactions are rolled back", (fs, folder) => {
+        const file = fs.getChild(folder, "file");
+        fs.createFile(file, createData(0));
+        const before = list(fs, folder);
+        const events = record(fs);
+        const change = () => {
+            fs.setData(file, createData(1));
+            fs.createFile(fs.getChild(fs.getChild(folder, "a"), "b"), createData(2));
+            fs.rename(file, "renamed");
+        };
+        check(!fs.transaction(() => { change(); return false; }), "The transaction was committed");
+        checkEqual(list(fs, folder), before, "The files and folders after returning false");
+        let thrown = false;
+        try {
+            fs.transaction(() => { change(); throw new Error("rollback"); });
+        } catch {
+            thrown = true;
+        }
+        check(thrown, "The error was not rethrown");
+        checkEqual(list(fs, folder), before, "The files and folders after throwing an error");
+        checkEqual(events, [], "The events");
+    });
+
+    test("nested transactions are rolled back separately", (fs, folder) => {
+        const a = fs.getChild(folder, "a");
+        const b = fs.getChild(folder, "b");
+        const events = record(fs);
+        fs.transaction(() => {
+            fs.createFile(a, createData(0));
+            fs.transaction(() => {
+                fs.createFile(b, createData(1));
+                return false;
+            });
+        });
+        check(fs.isFile(a) && !fs.exists(b), "The nested transaction was not rolled back");
+        checkEqual(events, [{ type: "transaction", path: a, events: [{ type: "created", path: a }] }], "The events");
+    });
+
+
+    // WATCHERS
+
+    test("watchers can unwatch", (fs, folder) => {
+        const fst = [] as FileSystemEvent[];
+        const snd = [] as FileSystemEvent[];
+        const unwatch = fs.watch(event => fst.push(event));
+        fs.watch(event => snd.push(event));
+        fs.createFolder(fs.getChild(folder, "a"));
+        unwatch();
+        fs.createFolder(fs.getChild(folder, "b"));
+        checkEqual(fst, [{ type: "created", path: fs.getChild(folder, "a") }], "The events of the first watcher");
+        checkEqual(snd.length, 2, "The number of events of the second watcher");
+    });
+
+    return tests;
+}
+
+/**
+    Runs the tests of the conformance suite on file systems that are created by createFileSystem.
+    Returns the tests that failed, which is empty if the file system conforms to the contract of FileSystem.
+*/
+export function runConformanceTests<T>(createFileSystem: () => FileSystem<T>, options: ConformanceOptions<T> = {}): ConformanceFailure[] {
+    return runTests(getConformanceTests(createFileSystem, options));
+}
+
+/** Runs tests and returns the tests that failed. */
+export function runTests(tests: ConformanceTest[]): ConformanceFailure[] {
+    const failures = [] as ConformanceFailure[];
+    tests.forEach(test => {
+        try {
+            test.run();
+        } catch (error) {
+            failures.push({
+                name: test.name,
+                message: error instanceof Error ? error.message : String(error),
+            });
+        }
+    });
+    return failures;
+}
@@ -0,0 +1,78 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { getValue, isObject, setValue, StorageObject } from "./Objects";
+
+/**
+    Implements the configuration of the OpenRCT2 API in memory, like the shared storage or the park storage of a plugin.
+    Like in the game, keys use JS dot notation and values are stored by reference, i.e. get returns the stored object itself.
+    They are only serialized as JSON when the storage is saved, e.g. by stringify.
+*/
+export class ConfigurationMock implements Configuration {
+    private readonly storage: StorageObject;
+
+    /** Constructs a new ConfigurationMock, which is empty or contains the values of a storage that was saved by stringify. */
+    public constructor(json: string = "{}") {
+        this.storage = JSON.parse(json);
+    }
+
+    /** Serializes the storage as JSON, like it is saved in the plugin.store.json file, optionally indented like by JSON.stringify. */
+    public stringify(space?: string | number): string {
+        return JSON.stringify(this.storage, undefined, space);
+    }
+
+    public getAll(namespace?: string): { [name: string]: any } {
+        const value = namespace === undefined ? this.storage : this.get(namespace);
+        return isObject(value) ? value : {};
+    }
+
+    public get<T>(key: string): T | undefined;
+    public get<T>(key: string, defaultValue: T): T;
+    public get<T>(key: string, defaultValue?: T): T | undefined {
+        const value = getValue(this.storage, this.getNames(key));
+        return value === undefined ? defaultValue : <T>value;
+    }
+
+    public set<T>(key: string, value: T): void {
+        setValue(this.storage, this.getNames(key), value);
+    }
+
+    public has(key: string): boolean {
+        return this.get(key) !== undefined;
+    }
+
+    private getNames(key: string): string[] {
+        const names = key.split(".");
+        if (names.some(name => name === ""))
+            throw new Error(`Invalid key: ${key}`);
+        return names;
+    }
+}
+
+/** The storages of a context that was installed by mockContext. */
+export interface ContextMock {
+    /** The shared storage of all plugins. */
+    sharedStorage: ConfigurationMock;
+
+    /** Gets the park storage of a plugin, which is created if it does not exist yet. */
+    getParkStorage(pluginName?: string): ConfigurationMock;
+}
+
+/**
+    Installs a global context with an in-memory shared storage and park storage, which replaces the context of the game.
+    This allows to use a JsonFileSystem or a ParkFileSystem outside of the game, e.g. for unit tests in Node.
+    Other members of the context are not available.
+*/
+export function mockContext(sharedStorage: ConfigurationMock = new ConfigurationMock()): ContextMock {
+    const parkStorages: { [pluginName: string]: ConfigurationMock } = {};
+    const mock: ContextMock = {
+        sharedStorage: sharedStorage,
+        getParkStorage: (pluginName = "") => parkStorages[pluginName] = parkStorages[pluginName] || new ConfigurationMock(),
+    };
+    (<{ context: unknown }><unknown>globalThis).context = mock;
+    return mock;
+}
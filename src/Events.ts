@@ -0,0 +1,82 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { FileSystem, FileSystemEvent } from "./FileSystem";
+
+/** Maps all paths of an event, including the paths of the events of a transaction. */
+export function mapEvent<P, Q>(event: FileSystemEvent<P>, map: (path: P) => Q): FileSystemEvent<Q> {
+    switch (event.type) {
+        case "moved":
+        case "renamed":
+            return { type: event.type, path: map(event.path), oldPath: map(event.oldPath) };
+        case "copied":
+            return { type: event.type, path: map(event.path), sourcePath: map(event.sourcePath) };
+        case "transaction":
+            return { type: event.type, path: map(event.path), events: event.events.map(event => mapEvent(event, map)) };
+        default:
+            return { type: event.type, path: map(event.path) };
+    }
+}
+
+/**
+    Gets the part of an event that affects a path, or undefined if it is not affected.
+    A path is affected by changes to itself, to its ancestors and to its children,
+    and, if recursive is true, to all of its descendants.
+*/
+export function filterEvent(fs: Pick<FileSystem<unknown>, "getParent">, event: FileSystemEvent, path: string, recursive: boolean): FileSystemEvent | undefined {
+    const isAffectedBy = (other: string): boolean => {
+        // this path or an ancestor
+        for (let current: string | undefined = path; current !== undefined; current = fs.getParent(current))
+            if (current === other)
+                return true;
+        // a child or a descendant
+        for (let current = fs.getParent(other), depth = 1; current !== undefined && (recursive || depth === 1); current = fs.getParent(current), depth++)
+            if (current === path)
+                return true;
+        return false;
+    };
+
+    switch (event.type) {
+        case "moved":
+        case "renamed":
+            return isAffectedBy(event.path) || isAffectedBy(event.oldPath) ? event : undefined;
+        case "transaction": {
+            const events = event.events.filter(event => filterEvent(fs, event, path, recursive));
+            return events.length === 0 ? undefined : {
+                type: "transaction",
+                path: event.path,
+                events: events,
+            };
+        }
+        default:
+            return isAffectedBy(event.path) ? event : undefined;
+    }
+}
+
+/** Gets the common ancestor of all paths that are affected by some events. */
+export function getCommonAncestor(fs: Pick<FileSystem<unknown>, "getParent">, events: FileSystemEvent[]): string {
+    const getAncestors = (path: string): string[] => {
+        const ancestors = [] as string[];
+        for (let current: string | undefined = path; current !== undefined; current = fs.getParent(current))
+            ancestors.unshift(current);
+        return ancestors;
+    };
+
+    const paths = [] as string[];
+    events.forEach(event => {
+        paths.push(event.path);
+        if (event.type === "moved" || event.type === "renamed")
+            paths.push(event.oldPath);
+    });
+    const common = paths.map(getAncestors).reduce((common, ancestors) => {
+        let idx = 0;
+        while (idx < common.length && idx < ancestors.length && common[idx] === ancestors[idx])
+            idx++;
+        return common.slice(0, idx);
+    });
+    return common[common.length - 1];
+}
@@ -0,0 +1,163 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { Attributes, FileSystem, Result } from "./FileSystem";
+import { isObject } from "./Objects";
+import { getReference, resolveReference } from "./PathString";
+import { fail, first, OK } from "./Result";
+
+// exchange format
+// A self-describing JSON document that contains a file or folder, including
+// its content, by names only. It does not depend on the path format of any
+// file system, so it can be imported into any file system. The targets of
+// links are references, i.e. escaped absolute path strings like "/a/b".
+
+/** The format identifier of exported files and folders. */
+export const EXCHANGE_FORMAT = "openrct2-lib-persistence";
+
+/** The current version of the exchange format. */
+export const EXCHANGE_VERSION = 1;
+
+/** An exported file or folder. */
+export type ExchangeElement<T> = {
+    type: "folder",
+    name: string,
+    attributes?: Attributes,
+    children: ExchangeElement<T>[],
+} | {
+    type: "file",
+    name: string,
+    attributes?: Attributes,
+    data: T,
+} | {
+    type: "link",
+    name: string,
+    attributes?: Attributes,
+    target: string,
+};
+
+/** The document of an exported file or folder. */
+export interface ExchangeDocument<T> {
+    format: typeof EXCHANGE_FORMAT;
+    version: number;
+    element: ExchangeElement<T>;
+}
+
+/**
+    Describes how a conflict is resolved when an imported file or folder already exists:
+    - "skip": The existing file or folder is kept and the imported one is skipped.
+    - "overwrite": The existing file or folder is replaced by the imported one.
+    - "rename": The imported file or folder is renamed by adding a suffix, e.g. "name (2)".
+    - "merge": Folders are merged recursively, other conflicts are resolved by renaming.
+*/
+export type ConflictStrategy = "skip" | "overwrite" | "rename" | "merge";
+
+function isElement(value: unknown): value is ExchangeElement<unknown> {
+    if (!isObject(value) || typeof value.name !== "string")
+        return false;
+    if (value.attributes !== undefined && !isObject(value.attributes))
+        return false;
+    switch (value.type) {
+        case "folder":
+            return Array.isArray(value.children) && value.children.every(isElement);
+        case "file":
+            return "data" in value;
+        case "link":
+            return typeof value.target === "string";
+        default:
+            return false;
+    }
+}
+
+/** Serializes an exported file or folder into a string. */
+export function stringify<T>(element: ExchangeElement<T>): string {
+    const document: ExchangeDocument<T> = {
+        format: EXCHANGE_FORMAT,
+        version: EXCHANGE_VERSION,
+        element: element,
+    };
+    return JSON.stringify(document);
+}
+
+/** Parses a string into an exported file or folder. Returns undefined if the string is not a valid document. */
+export function parse(text: string): ExchangeElement<unknown> | undefined {
+    let document: unknown;
+    try {
+        document = JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+    if (!isObject(document) || document.format !== EXCHANGE_FORMAT)
+        return undefined;
+    if (typeof document.version !== "number" || document.version > EXCHANGE_VERSION)
+        return undefined;
+    return isElement(document.element) ? document.element : undefined;
+}
+
+/**
+    Exports the file or folder at a path of a file system, including its content.
+    Files whose data cannot be read are skipped.
+    Returns undefined if there is no file or folder at the path.
+*/
+export function exportElement<T>(fs: FileSystem<T>, path: string): ExchangeElement<T> | undefined {
+    const metadata = fs.getMetadata(path);
+    const attributes = metadata && Object.keys(metadata.attributes).length > 0 ? metadata.attributes : undefined;
+    const target = fs.getLinkTarget(path);
+    if (target !== undefined)
+        return {
+            type: "link",
+            name: fs.getName(path),
+            attributes: attributes,
+            target: getReference(fs, target),
+        };
+    if (fs.isFolder(path)) {
+        const children = [] as ExchangeElement<T>[];
+        (fs.getChildren(path) || []).forEach(child => {
+            const element = exportElement(fs, child);
+            element && children.push(element);
+        });
+        return {
+            type: "folder",
+            name: fs.getName(path),
+            attributes: attributes,
+            children: children,
+        };
+    }
+    const data = fs.getData(path);
+    if (data === undefined)
+        return undefined;
+    return {
+        type: "file",
+        name: fs.getName(path),
+        attributes: attributes,
+        data: data,
+    };
+}
+
+/**
+    Creates an exported file or folder, including its content, at a path of a file system.
+    The name of the exported element is ignored. Returns the result of the operation.
+*/
+export function createElement<T>(fs: FileSystem<T>, path: string, element: ExchangeElement<T>): Result {
+    const result = element.type === "folder"
+        ? first(
+            () => fs.tryCreateFolder(path),
+            ...element.children.map(child => () => createElement(fs, fs.getChild(path, child.name), child)),
+        )
+        : element.type === "link"
+            ? createLink(fs, path, element.target)
+            : fs.tryCreateFile(path, element.data);
+    if (!result.ok)
+        return result;
+    return element.attributes ? fs.trySetAttributes(path, element.attributes) : OK;
+}
+
+/** Creates a link at a path of a file system that points to a reference. Returns the result of the operation. */
+export function createLink(fs: FileSystem<unknown>, path: string, reference: string): Result {
+    const target = resolveReference(fs, reference);
+    return target === undefined ? fail("EINVAL", path, "Invalid link target: " + reference) : fs.tryCreateLink(path, target);
+}
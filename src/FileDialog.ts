@@ -0,0 +1,420 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { FileSystemEvent, Result } from "./FileSystem";
+import { Path } from "./Path";
+
+/** The mode of a file dialog, either to pick an existing file or to choose a path for a new or existing file. */
+export type FileDialogMode = "open" | "save";
+
+/** Options for a file dialog. The generic parameter <T> represents the data format of files. */
+export interface FileDialogOptions<T> {
+    /** The mode of the dialog. */
+    mode: FileDialogMode;
+
+    /** The folder on which the dialog is rooted. It is not possible to navigate above it. */
+    root: Path<T>;
+
+    /** The folder that is shown first. By default, the root is shown. */
+    folder?: Path<T>;
+
+    /** The title of the window. By default, it is "Open File" or "Save File". */
+    title?: string;
+
+    /** The initial name of the file in save mode. */
+    name?: string;
+
+    /** Only files that satisfy this predicate are shown, e.g. to show only files of a certain type. Folders are always shown. */
+    filter?: (path: Path<T>) => boolean;
+
+    /**
+        Called when the dialog is confirmed, with the selected file in open mode or the chosen path in save mode.
+        In save mode, the file does not have to exist yet, and the callback is responsible for writing it.
+    */
+    onSelect: (path: Path<T>) => void;
+
+    /** Called when the dialog is closed without confirming it. */
+    onCancel?: () => void;
+
+    /** The user interface to use. By default, the global ui is used. Can be replaced, e.g. to test a dialog without a game. */
+    ui?: Ui;
+}
+
+const CLASSIFICATION = "lib-persistence.file-dialog";
+
+const WIDTH = 320;
+const HEIGHT = 250;
+
+// widget names
+const FOLDER = "folder";
+const UP = "up";
+const NEW_FOLDER = "new-folder";
+const RENAME = "rename";
+const DELETE = "delete";
+const LIST = "list";
+const NAME = "name";
+const STATUS = "status";
+const CONFIRM = "confirm";
+const CANCEL = "cancel";
+
+/**
+    A window to browse the folders of a file system, to pick a file or to choose a path to save a file.
+    It also allows to create folders and to rename and delete files and folders. Deleting and overwriting are confirmed by a second click.
+    The window is refreshed on each change of the file system below the root.
+    All actions of the window are available as methods, such that the dialog can also be controlled by a plugin.
+*/
+export class FileDialog<T> {
+    private readonly options: FileDialogOptions<T>;
+    private readonly ui: Ui;
+    private readonly window: Window;
+    private readonly unwatch: () => void;
+
+    private folder: Path<T>;
+    private entries: Path<T>[] = [];
+    private selection: Path<T> | undefined = undefined;
+    private name: string;
+    // the action that has to be clicked again to confirm it, if any
+    private pending: "delete" | "overwrite" | undefined = undefined;
+    private closed = false;
+
+    private constructor(options: FileDialogOptions<T>) {
+        this.options = options;
+        this.ui = options.ui || ui;
+        this.folder = options.folder && this.contains(options.folder) ? options.folder : options.root;
+        this.name = options.name || "";
+        this.window = this.ui.openWindow(this.createWindowDesc());
+        this.unwatch = options.root.watch(event => this.onEvent(event), true);
+        this.refresh();
+    }
+
+    /** Opens a new file dialog. */
+    public static open<T>(options: FileDialogOptions<T>): FileDialog<T> { return new FileDialog(options); }
+
+
+    // STATE
+
+    /** Gets the folder that is currently shown. */
+    public getFolder(): Path<T> { return this.folder; }
+
+    /** Gets the shown files and folders of the current folder, folders first and sorted by name. */
+    public getEntries(): Path<T>[] { return this.entries; }
+
+    /** Gets the selected file or folder, if any. */
+    public getSelection(): Path<T> | undefined { return this.selection; }
+
+    /** Gets the name of the file in save mode. */
+    public getName(): string { return this.name; }
+
+    /** Checks if the dialog is closed. */
+    public isClosed(): boolean { return this.closed; }
+
+
+    // NAVIGATION
+
+    /** Shows a folder. Returns false if it is not a folder or not below the root of the dialog. */
+    public navigate(folder: Path<T>): boolean {
+        if (!folder.isFolder() || !this.contains(folder))
+            return false;
+        this.folder = folder;
+        this.selection = undefined;
+        this.refresh();
+        return true;
+    }
+
+    /** Shows the parent folder. Returns false if the current folder is the root of the dialog. */
+    public up(): boolean {
+        const parent = this.folder.getParent();
+        return !Path.equals(this.folder, this.options.root) && parent !== undefined && this.navigate(parent);
+    }
+
+    /** Selects a shown file or folder, or clears the selection. In save mode, selecting a file also sets the name. */
+    public select(entry: Path<T> | undefined): boolean {
+        if (entry && !this.entries.some(other => Path.equals(entry, other)))
+            return false;
+        this.selection = entry;
+        if (entry && entry.isFile() && this.options.mode === "save")
+            this.name = entry.getName();
+        this.update();
+        return true;
+    }
+
+    /** Opens a shown folder or confirms the dialog with a shown file. */
+    public activate(entry: Path<T>): boolean {
+        if (entry.isFolder())
+            return this.navigate(entry);
+        return this.select(entry) && this.confirm();
+    }
+
+    /** Sets the name of the file in save mode. */
+    public setName(name: string): void {
+        this.name = name;
+        this.pending = undefined;
+        this.update();
+    }
+
+
+    // CONFIRMATION
+
+    /**
+        Confirms the dialog and closes it. In open mode, a file must be selected.
+        In save mode, the name must not be empty and must not be the name of a folder.
+        Returns false if the dialog cannot be confirmed.
+    */
+    public confirm(): boolean {
+        const path = this.getTarget();
+        if (!path)
+            return false;
+        this.close(false);
+        this.options.onSelect(path);
+        return true;
+    }
+
+    /** Closes the dialog without confirming it. */
+    public cancel(): void {
+        this.close(true);
+    }
+
+    private getTarget(): Path<T> | undefined {
+        if (this.closed)
+            return undefined;
+        if (this.options.mode === "open")
+            return this.selection && this.selection.isFile() ? this.selection : undefined;
+        if (this.name === "")
+            return undefined;
+        const path = this.folder.getChild(this.name);
+        return path.isFolder() ? undefined : path;
+    }
+
+    // the window is not closed again if it is already closing
+    private close(cancelled: boolean, closeWindow: boolean = true): void {
+        if (this.closed)
+            return;
+        this.closed = true;
+        this.unwatch();
+        closeWindow && this.window.close();
+        cancelled && this.options.onCancel && this.options.onCancel();
+    }
+
+
+    // FOLDER CREATION
+
+    /** Creates a folder with a given name in the current folder and selects it. */
+    public createFolder(name: string): Result {
+        const path = this.folder.getChild(name);
+        const result = path.tryCreateFolder();
+        result.ok && this.select(path);
+        return result;
+    }
+
+
+
+    // WINDOW
+
+    // refreshes the entries after a change of the file system
+    private refresh(): void {
+        // if the current folder does not exist anymore, then show the closest existing ancestor
+        while (!this.folder.isFolder() && !Path.equals(this.folder, this.options.root)) {
+            const parent = this.folder.getParent();
+            if (!parent)
+                break;
+            this.folder = parent;
+        }
+
+        const filter = this.options.filter;
+        this.entries = (this.folder.getChildren({ sortBy: "name", foldersFirst: true }) || [])
+            .filter(path => path.isFolder() || !filter || filter(path));
+        const selection = this.selection;
+        this.selection = selection && this.entries.filter(entry => Path.equals(entry, selection))[0];
+        this.update();
+    }
+
+    // follows the current folder and the selection if they are renamed or moved
+    private onEvent(event: FileSystemEvent<Path<T>>): void {
+        const follow = (path: Path<T> | undefined, event: FileSystemEvent<Path<T>>): Path<T> | undefined => {
+            switch (event.type) {
+                case "moved":
+                case "renamed":
+                    return Path.equals(path, event.oldPath) && this.contains(event.path) ? event.path : path;
+                case "transaction":
+                    return event.events.reduce(follow, path);
+                default:
+                    return path;
+            }
+        };
+        this.folder = follow(this.folder, event) || this.folder;
+        this.selection = follow(this.selection, event);
+        this.closed || this.refresh();
+    }
+
+    // updates the widgets to the current state
+    private update(): void {
+        if (this.closed)
+            return;
+        const selected = this.entries.map(entry => Path.equals(entry, this.selection)).indexOf(true);
+        this.window.findWidget<LabelWidget>(FOLDER).text = "/" + this.folder.formatPath().slice(this.options.root.formatPath().length);
+        this.window.findWidget<ButtonWidget>(UP).isDisabled = Path.equals(this.folder, this.options.root);
+        this.window.findWidget<ButtonWidget>(RENAME).isDisabled = selected === -1;
+        this.window.findWidget<ButtonWidget>(DELETE).isDisabled = selected === -1;
+        const list = this.window.findWidget<ListViewWidget>(LIST);
+        list.items = this.entries.map(entry => [entry.getName(), entry.isFolder() ? "Folder" : entry.isBrokenLink() ? "Broken link" : "File"]);
+        list.selectedCell = selected === -1 ? null : { row: selected, column: 0 };
+        if (this.options.mode === "save")
+            this.window.findWidget<TextBoxWidget>(NAME).text = this.name;
+        this.window.findWidget<LabelWidget>(STATUS).text = this.pending === "delete"
+            ? `Click "Delete" again to delete ${this.selection && this.selection.getName()}.`
+            : this.pending === "overwrite"
+                ? `Click "Save" again to overwrite ${this.name}.`
+                : "";
+        this.window.findWidget<ButtonWidget>(CONFIRM).isDisabled = this.getTarget() === undefined;
+    }
+
+    // shows the error of a failed result
+    private report(result: Result): void {
+        if (!result.ok)
+            this.ui.showError("The operation failed:", result.error.message);
+    }
+
+    private contains(path: Path<T>): boolean {
+        for (let current: Path<T> | undefined = path; current !== undefined; current = current.getParent())
+            if (Path.equals(current, this.options.root))
+                return true;
+        return false;
+    }
+
+    private createWindowDesc(): WindowDesc {
+        const save = this.options.mode === "save";
+        // actions that need confirmation are executed by a second click
+        const confirmed = (action: "delete" | "overwrite"): boolean => {
+            if (this.pending === action)
+                return true;
+            this.pending = action;
+            this.update();
+            return false;
+        };
+        const reset = (): void => {
+            if (this.pending === undefined)
+                return;
+            this.pending = undefined;
+            this.update();
+        };
+
+        const widgets: WidgetDesc[] = [{
+            type: "label",
+            name: FOLDER,
+            x: 5, y: 18, width: WIDTH - 10, height: 12,
+        }, {
+            type: "button",
+            name: UP,
+            text: "Up",
+            x: 5, y: 32, width: 50, height: 14,
+            onClick: () => {
+                reset();
+                this.up();
+            },
+        }, {
+            type: "button",
+            name: NEW_FOLDER,
+            text: "New Folder",
+            x: 60, y: 32, width: 80, height: 14,
+            onClick: () => {
+                reset();
+                this.ui.showTextInput({
+                    title: "New Folder",
+                    description: "Enter the name of the new folder:",
+                    callback: name => this.report(this.createFolder(name)),
+                });
+            },
+        }, {
+            type: "button",
+            name: RENAME,
+            text: "Rename",
+            x: 145, y: 32, width: 70, height: 14,
+            onClick: () => {
+                reset();
+                const selection = this.selection;
+                selection && this.ui.showTextInput({
+                    title: "Rename",
+                    description: "Enter the new name:",
+                    initialValue: selection.getName(),
+                    callback: name => this.report(selection.tryRename(name)),
+                });
+            },
+        }, {
+            type: "button",
+            name: DELETE,
+            text: "Delete",
+            x: 220, y: 32, width: 70, height: 14,
+            onClick: () => {
+                const selection = this.selection;
+                if (selection && confirmed("delete")) {
+                    reset();
+                    this.report(selection.tryDelete());
+                }
+            },
+        }, {
+            type: "listview",
+            name: LIST,
+            x: 5, y: 50, width: WIDTH - 10, height: save ? HEIGHT - 112 : HEIGHT - 94,
+            scrollbars: "vertical",
+            isStriped: true,
+            showColumnHeaders: true,
+            columns: [{ header: "Name", ratioWidth: 3 }, { header: "Type", ratioWidth: 1 }],
+            canSelect: true,
+            onClick: row => {
+                reset();
+                const entry = this.entries[row];
+                // clicking the selected entry again opens it
+                if (entry && Path.equals(entry, this.selection))
+                    this.activate(entry);
+                else
+                    this.select(entry);
+            },
+        }];
+        save && widgets.push({
+            type: "label",
+            text: "Name:",
+            x: 5, y: HEIGHT - 58, width: 40, height: 14,
+        }, {
+            type: "textbox",
+            name: NAME,
+            x: 45, y: HEIGHT - 58, width: WIDTH - 50, height: 14,
+            onChange: name => this.setName(name),
+        });
+        widgets.push({
+            type: "label",
+            name: STATUS,
+            x: 5, y: HEIGHT - 40, width: WIDTH - 10, height: 12,
+        }, {
+            type: "button",
+            name: CONFIRM,
+            text: save ? "Save" : "Open",
+            x: WIDTH - 170, y: HEIGHT - 22, width: 80, height: 14,
+            onClick: () => {
+                const target = this.getTarget();
+                if (save && target && target.exists() && !confirmed("overwrite"))
+                    return;
+                reset();
+                this.confirm();
+            },
+        }, {
+            type: "button",
+            name: CANCEL,
+            text: "Cancel",
+            x: WIDTH - 85, y: HEIGHT - 22, width: 80, height: 14,
+            onClick: () => this.cancel(),
+        });
+
+        return {
+            classification: CLASSIFICATION,
+            title: this.options.title || (save ? "Save File" : "Open File"),
+            width: WIDTH,
+            height: HEIGHT,
+            widgets: widgets,
+            onClose: () => this.close(true, false),
+        };
+    }
+}
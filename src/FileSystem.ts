@@ -5,13 +5,96 @@
  * under the GNU General License version 3.
  *****************************************************************************/
 
+/**
+    An event that describes a change in a file system.
+    The generic parameter <P> represents the type of the paths, which are strings by default.
+    For moved, renamed and copied events, path is the destination path.
+*/
+export type FileSystemEvent<P = string> =
+    /** A file or folder was created at path. */
+    { type: "created", path: P } |
+    /** The file or folder at path was deleted, including its content. */
+    { type: "deleted", path: P } |
+    /** The data of the file at path was changed. */
+    { type: "dataChanged", path: P } |
+    /** The attributes of the file or folder at path were changed. */
+    { type: "attributesChanged", path: P } |
+    /** The children of the folder at path were reordered. */
+    { type: "reordered", path: P } |
+    /** The file or folder at oldPath was moved to path. */
+    { type: "moved", path: P, oldPath: P } |
+    /** The file or folder at oldPath was renamed, its new path is path. */
+    { type: "renamed", path: P, oldPath: P } |
+    /** The file or folder at sourcePath was copied to path. */
+    { type: "copied", path: P, sourcePath: P } |
+    /** A transaction was committed. Path is the common ancestor of all paths affected by its events. */
+    { type: "transaction", path: P, events: FileSystemEvent<P>[] };
+
+/** User-defined attributes of a file or folder, e.g. tags, author or description. */
+export type Attributes = { [key: string]: unknown };
+
+/** Metadata of a file or folder. */
+export interface Metadata {
+    /** The time of creation in milliseconds since the epoch, or undefined if unknown. */
+    created: number | undefined;
+
+    /** The time of the last change of the data or attributes in milliseconds since the epoch, or undefined if unknown. */
+    modified: number | undefined;
+
+    /** The approximate size of the file or folder (including its content) in characters when serialized. */
+    size: number;
+
+    /** The user-defined attributes. */
+    attributes: Attributes;
+
+    /**
+        An identifier of the current state of the file or folder, which changes with each change of its data
+        or attributes (or its content, for folders). It can be passed to setData to detect concurrent changes.
+        The revision of a link is the revision of its target, since setData changes the target.
+    */
+    revision: string;
+}
+
+/**
+    The reason why an operation failed:
+    - "ENOENT": The file or folder does not exist.
+    - "EEXIST": The file or folder already exists.
+    - "ENOTDIR": The path or one of its ancestors is a file instead of a folder.
+    - "EISDIR": The path is a folder instead of a file.
+    - "EINVAL": The operation or data is invalid, e.g. when moving a folder into itself.
+    - "EACCES": The file system does not allow the operation, e.g. because it is read-only.
+    - "ENOSPC": The operation would exceed a limit of the file system.
+    - "ENAMETOOLONG": The name of the file or folder is too long.
+    - "ESTALE": The file was changed since it was read.
+    - "EIO": The operation failed for another reason.
+*/
+export type FileSystemErrorCode = "ENOENT" | "EEXIST" | "ENOTDIR" | "EISDIR" | "EINVAL" | "EACCES" | "ENOSPC" | "ENAMETOOLONG" | "ESTALE" | "EIO";
+
+/** Describes why an operation failed. */
+export interface FileSystemError {
+    /** The reason why the operation failed. */
+    code: FileSystemErrorCode;
+
+    /** The path that caused the failure. */
+    path: string;
+
+    /** A human-readable description of the failure. */
+    message: string;
+}
+
+/** The result of an operation, which contains the error if the operation failed. */
+export type Result = { ok: true } | { ok: false, error: FileSystemError };
+
 /** A callback function for changes in a file system. */
-export type FileSystemWatcher = (path: string) => void;
+export type FileSystemWatcher = (event: FileSystemEvent) => void;
 
 /**
     A file system that allows creation, modification and deletion of files and folders.
     Files and folders are represented by paths.
     Paths are not meant to be created manually, but to be obtained by the getPath method.
+    A link points to another file or folder of the same file system. The methods that read or write the content,
+    i.e. isFolder, isFile, getChildren, getData, setData and setOrder, follow links to their targets. All other
+    methods apply to the link itself, e.g. deleting a link does not delete its target.
     The generic parameter <T> represents the data format of files.
 */
 export interface FileSystem<T> {
@@ -24,11 +107,22 @@ export interface FileSystem<T> {
     /**
         Adds a file system watcher to the file system.
         Each watcher gets notified by any change to the files and folders made by *this file system*.
-        Changes to the data or file structure made by external forces may or may not be reported.
+        Each operation is reported by exactly one event for the highest affected path,
+        except for implicitly created parent folders, which are reported by separate events.
+        All operations of a transaction are reported together by one transaction event on commit.
+        Changes to the data or file structure made by external forces may or may not be reported,
+        unless the file system detects them, e.g. by the change detection of a StorageFileSystem.
         Returns a callback to unwatch.
     */
     watch(watcher: FileSystemWatcher): () => void;
 
+    /**
+        Executes a callback that only reads from the file system, such that reading does not write either,
+        e.g. a missing root folder is not created by getRoot, and data is neither written back nor deleted by getData.
+        It is used by read-only views of the file system. Returns the result of the callback.
+    */
+    readOnly<S>(read: () => S): S;
+
 
     // FILE & FOLDER INFORMATION
 
@@ -50,12 +144,25 @@ export interface FileSystem<T> {
     /** Checks if the path represents a file. */
     isFile(path: string): boolean;
 
-    /** Gets contained files if path represents a folder and undefined otherwise. */
+    /** Gets contained files (in their persisted order) if path represents a folder and undefined otherwise. */
     getChildren(path: string): string[] | undefined;
 
     /** Gets data of file if path represent a file and undefined otherwise. */
     getData(path: string): T | undefined;
 
+    /** Gets the metadata of the file or folder at a path, or undefined if it does not exist. */
+    getMetadata(path: string): Metadata | undefined;
+
+    /** Checks if the path represents a link. */
+    isLink(path: string): boolean;
+
+    /**
+        Gets the path to which the link at a path points, or undefined if the path is not a link.
+        Links are not updated when their target is moved, renamed or deleted, so the target might not exist.
+        A link is broken if it is neither a file nor a folder, i.e. if its target does not exist or if links form a cycle.
+    */
+    getLinkTarget(path: string): string | undefined;
+
 
     // FILE & FOLDER CREATION AND DELETION
 
@@ -68,6 +175,21 @@ export interface FileSystem<T> {
     /** Deletes the file or folder at a path. */
     delete(path: string): boolean;
 
+    /** Creates a link at a path that points to a target path, which does not need to exist. */
+    createLink(path: string, target: string): boolean;
+
+    /** Creates a folder at a path. Returns the result of the operation. */
+    tryCreateFolder(path: string): Result;
+
+    /** Creates a file with given data at a path. Returns the result of the operation. */
+    tryCreateFile(path: string, data: T): Result;
+
+    /** Deletes the file or folder at a path. Returns the result of the operation. */
+    tryDelete(path: string): Result;
+
+    /** Creates a link at a path that points to a target path. Returns the result of the operation. */
+    tryCreateLink(path: string, target: string): Result;
+
 
     // FILE & FOLDER MODIFICATION
     // (These methods are not strictly necessary, but usually the
@@ -93,7 +215,54 @@ export interface FileSystem<T> {
 
     /**
         Sets the data of a file, if the  at a path.
+        If a revision is given, then the operation fails if the revision of the file is different,
+        i.e. if the file was changed since that revision was read from its metadata.
+        Returns if the operation succeeded.
+    */
+    setData(path: string, data: T, revision?: string): boolean;
+
+    /**
+        Sets the user-defined attributes of the file or folder at a path.
+        Returns if the operation succeeded.
+    */
+    setAttributes(path: string, attributes: Attributes): boolean;
+
+    /**
+        Sets the order of the children of the folder at a path. The given children are ordered first,
+        followed by the remaining children in their previous order. The order is kept when the children
+        are renamed and when the folder is copied or moved.
         Returns if the operation succeeded.
     */
-    setData(path: string, data: T): boolean;
+    setOrder(path: string, children: string[]): boolean;
+
+    /** Copies a file or folder from a source path to a destination path. Returns the result of the operation. */
+    tryCopy(src: string, dst: string): Result;
+
+    /** Moves a file or folder from a source path to a destination path. Returns the result of the operation. */
+    tryMove(src: string, dst: string): Result;
+
+    /** Renames a file or folder at a path. Returns the result of the operation. */
+    tryRename(path: string, name: string): Result;
+
+    /** Sets the data of the file at a path. Returns the result of the operation. */
+    trySetData(path: string, data: T, revision?: string): Result;
+
+    /** Sets the user-defined attributes of the file or folder at a path. Returns the result of the operation. */
+    trySetAttributes(path: string, attributes: Attributes): Result;
+
+    /** Sets the order of the children of the folder at a path. Returns the result of the operation. */
+    trySetOrder(path: string, children: string[]): Result;
+
+
+    // TRANSACTIONS
+
+    /**
+        Executes the operations of a callback as one atomic transaction.
+        If the callback returns false or throws an error, then all changes
+        made by the callback are rolled back, and the error is rethrown.
+        Otherwise, the changes are committed and the watchers are notified
+        by one transaction event. Transactions can be nested.
+        Returns if the transaction was committed.
+    */
+    transaction(operations: () => boolean | void): boolean;
 }
@@ -0,0 +1,40 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { FileSystem } from "./FileSystem";
+import { isObject } from "./Objects";
+import { ClientMessage, createMessageReader, handleRequest, mapToReferences, stringifyMessage } from "./Protocol";
+
+/**
+    Serves a file system to one client of the protocol, e.g. to a SocketFileSystem.
+    It executes the requests that it receives and sends the responses and all changes of the file system to the client.
+    It does not depend on the OpenRCT2 API, so it can be used on a server with Node.js.
+*/
+export class FileSystemServer<T> {
+    private readonly read: (data: string) => void;
+    private readonly unwatch: () => void;
+
+    /** Constructs a new FileSystemServer for a file system, which sends data to the client with the given function. */
+    public constructor(fs: FileSystem<T>, send: (data: string) => void) {
+        this.read = createMessageReader(message => {
+            // invalid requests are answered by handleRequest, but messages without an id cannot be answered
+            if (isObject(message) && typeof message.id === "number")
+                send(stringifyMessage({ id: message.id, response: handleRequest(fs, (<ClientMessage<T>>message).request) }));
+        });
+        this.unwatch = fs.watch(event => send(stringifyMessage({ event: mapToReferences(fs, event) })));
+    }
+
+    /** Receives data from the client, which may contain incomplete messages. */
+    public receive(data: string): void {
+        this.read(data);
+    }
+
+    /** Stops sending changes of the file system to the client. */
+    public close(): void {
+        this.unwatch();
+    }
+}
@@ -0,0 +1,109 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { Attributes, FileSystem, FileSystemWatcher, Metadata, Result } from "./FileSystem";
+
+/**
+    Implements a file system that delegates all methods to another file system.
+    It serves as base class for file systems that decorate other file systems,
+    which only need to override the methods whose behaviour they change.
+*/
+export class FileSystemWrapper<T> implements FileSystem<T> {
+    /** The decorated file system. */
+    protected readonly fs: FileSystem<T>;
+
+    /** Constructs a new FileSystemWrapper that decorates a given file system. */
+    public constructor(fs: FileSystem<T>) {
+        this.fs = fs;
+    }
+
+    // GENERAL FILE SYSTEM METHODS
+
+    public getRoot(): string { return this.fs.getRoot(); }
+
+    public watch(watcher: FileSystemWatcher): () => void { return this.fs.watch(watcher); }
+
+    public readOnly<S>(read: () => S): S { return this.fs.readOnly(read); }
+
+
+    // FILE & FOLDER INFORMATION
+
+    public getName(path: string): string { return this.fs.getName(path); }
+
+    public getParent(path: string): string | undefined { return this.fs.getParent(path); }
+
+    public getChild(parent: string, name: string): string { return this.fs.getChild(parent, name); }
+
+    public exists(path: string): boolean { return this.fs.exists(path); }
+
+    public isFolder(path: string): boolean { return this.fs.isFolder(path); }
+
+    public isFile(path: string): boolean { return this.fs.isFile(path); }
+
+    public getChildren(path: string): string[] | undefined { return this.fs.getChildren(path); }
+
+    public getData(path: string): T | undefined { return this.fs.getData(path); }
+
+    public getMetadata(path: string): Metadata | undefined { return this.fs.getMetadata(path); }
+
+    public isLink(path: string): boolean { return this.fs.isLink(path); }
+
+    public getLinkTarget(path: string): string | undefined { return this.fs.getLinkTarget(path); }
+
+
+    // FILE & FOLDER CREATION AND DELETION
+    // (The boolean methods delegate to the result methods, such that
+    // subclasses only need to override the result methods.)
+
+    public createFolder(path: string): boolean { return this.tryCreateFolder(path).ok; }
+
+    public createFile(path: string, data: T): boolean { return this.tryCreateFile(path, data).ok; }
+
+    public delete(path: string): boolean { return this.tryDelete(path).ok; }
+
+    public createLink(path: string, target: string): boolean { return this.tryCreateLink(path, target).ok; }
+
+    public tryCreateFolder(path: string): Result { return this.fs.tryCreateFolder(path); }
+
+    public tryCreateFile(path: string, data: T): Result { return this.fs.tryCreateFile(path, data); }
+
+    public tryDelete(path: string): Result { return this.fs.tryDelete(path); }
+
+    public tryCreateLink(path: string, target: string): Result { return this.fs.tryCreateLink(path, target); }
+
+
+    // FILE & FOLDER MODIFICATION
+
+    public copy(src: string, dst: string): boolean { return this.tryCopy(src, dst).ok; }
+
+    public move(src: string, dst: string): boolean { return this.tryMove(src, dst).ok; }
+
+    public rename(path: string, name: string): boolean { return this.tryRename(path, name).ok; }
+
+    public setData(path: string, data: T, revision?: string): boolean { return this.trySetData(path, data, revision).ok; }
+
+    public setAttributes(path: string, attributes: Attributes): boolean { return this.trySetAttributes(path, attributes).ok; }
+
+    public setOrder(path: string, children: string[]): boolean { return this.trySetOrder(path, children).ok; }
+
+    public tryCopy(src: string, dst: string): Result { return this.fs.tryCopy(src, dst); }
+
+    public tryMove(src: string, dst: string): Result { return this.fs.tryMove(src, dst); }
+
+    public tryRename(path: string, name: string): Result { return this.fs.tryRename(path, name); }
+
+    public trySetData(path: string, data: T, revision?: string): Result { return this.fs.trySetData(path, data, revision); }
+
+    public trySetAttributes(path: string, attributes: Attributes): Result { return this.fs.trySetAttributes(path, attributes); }
+
+    public trySetOrder(path: string, children: string[]): Result { return this.fs.trySetOrder(path, children); }
+
+
+    // TRANSACTIONS
+
+    public transaction(operations: () => boolean | void): boolean { return this.fs.transaction(operations); }
+}
@@ -0,0 +1,49 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+// glob syntax
+// segment delimiter: / (forward slash)
+// wildcards: * (any number of characters), ? (single character), ** (any number of segments)
+// escape char: \ (backslash)
+
+/** Matches any number of segments. */
+export const GLOBSTAR = "**";
+
+/** A segment of a glob pattern, either a regular expression for a single name or a globstar. */
+export type GlobSegment = RegExp | typeof GLOBSTAR;
+
+function escapeRegExp(char: string): string {
+    return /[\\^$.*+?()[\]{}|\/-]/.test(char) ? "\\" + char : char;
+}
+
+/** Parses a glob pattern into its segments. */
+export function parseGlob(pattern: string): GlobSegment[] {
+    const segments = [] as GlobSegment[];
+    let source = "";
+    let raw = "";
+
+    const push = () => {
+        segments.push(raw === GLOBSTAR ? GLOBSTAR : new RegExp("^" + source + "$"));
+        source = raw = "";
+    };
+
+    for (let idx = 0; idx < pattern.length; idx++) {
+        const char = pattern.charAt(idx);
+        if (char === "\\" && idx + 1 < pattern.length) {
+            const escaped = pattern.charAt(++idx);
+            source += escapeRegExp(escaped);
+            raw += "\\" + escaped;
+        } else if (char === "/") {
+            push();
+        } else {
+            source += char === "*" ? "[\\s\\S]*" : char === "?" ? "[\\s\\S]" : escapeRegExp(char);
+            raw += char;
+        }
+    }
+    push();
+    return segments;
+}
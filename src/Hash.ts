@@ -0,0 +1,17 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+/** Computes a short hash of a string (32 bit FNV-1a), which is not suitable for cryptographic purposes. */
+export function hash(text: string): string {
+    let value = 0x811c9dc5;
+    for (let idx = 0; idx < text.length; idx++) {
+        value ^= text.charCodeAt(idx);
+        // multiplication by the FNV prime 0x01000193, split to stay within the safe integer range
+        value = (value + (value << 1) + (value << 4) + (value << 7) + (value << 8) + (value << 24)) >>> 0;
+    }
+    return value.toString(36);
+}
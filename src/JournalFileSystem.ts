@@ -0,0 +1,262 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { createElement, exportElement } from "./Exchange";
+import { Attributes, FileSystem, Result } from "./FileSystem";
+import { FileSystemWrapper } from "./FileSystemWrapper";
+import { fail, first, OK } from "./Result";
+
+interface Step {
+    undo: () => Result;
+    redo: () => Result;
+}
+
+interface Entry {
+    name: string;
+    steps: Step[];
+}
+
+/**
+    Implements a file system that records all changes made to another file system,
+    such that they can be undone and redone.
+    Changes are only recorded if they are made via this file system.
+    Undoing and redoing restores the folder structure, the order of the children,
+    the data and the attributes, but not the timestamps.
+*/
+export class JournalFileSystem<T> extends FileSystemWrapper<T> {
+    private readonly limit: number;
+    private readonly undoStack: Entry[] = [];
+    private readonly redoStack: Entry[] = [];
+    // steps of the current checkpoint or transaction
+    private steps: Step[] | undefined = undefined;
+
+    /**
+        Constructs a new JournalFileSystem that records the changes made to a file system.
+        The limit is the maximum number of entries in the history.
+    */
+    public constructor(fs: FileSystem<T>, limit: number = 100) {
+        super(fs);
+        this.limit = limit;
+    }
+
+    // HISTORY METHODS
+
+    /** Checks if there is an entry in the history that can be undone. */
+    public canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    /** Checks if there is an entry in the history that can be redone. */
+    public canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    /** Gets the name of the entry that would be undone next, or undefined if there is none. */
+    public getUndoName(): string | undefined {
+        const entry = this.undoStack[this.undoStack.length - 1];
+        return entry && entry.name;
+    }
+
+    /** Gets the name of the entry that would be redone next, or undefined if there is none. */
+    public getRedoName(): string | undefined {
+        const entry = this.redoStack[this.redoStack.length - 1];
+        return entry && entry.name;
+    }
+
+    /**
+        Undoes the last entry of the history in one transaction.
+        Returns if the operation succeeded. If it failed, then nothing is changed.
+    */
+    public undo(): boolean {
+        return this.replay(this.undoStack, this.redoStack, entry => entry.steps.slice().reverse().map(step => step.undo));
+    }
+
+    /**
+        Redoes the last undone entry of the history in one transaction.
+        Returns if the operation succeeded. If it failed, then nothing is changed.
+    */
+    public redo(): boolean {
+        return this.replay(this.redoStack, this.undoStack, entry => entry.steps.map(step => step.redo));
+    }
+
+    /** Removes all entries from the history. */
+    public clearHistory(): void {
+        this.undoStack.length = 0;
+        this.redoStack.length = 0;
+    }
+
+    /**
+        Executes the operations of a callback as one transaction, which is recorded
+        as one entry with a given name in the history. Nested checkpoints are part of
+        the entry of the outermost checkpoint.
+        Returns if the transaction was committed.
+    */
+    public checkpoint(name: string, operations: () => boolean | void): boolean {
+        const outermost = this.steps === undefined;
+        const steps = this.steps = this.steps || [];
+        const stepsLength = steps.length;
+
+        let committed = false;
+        try {
+            committed = this.fs.transaction(operations);
+        } finally {
+            if (!committed)
+                steps.length = stepsLength;
+            if (outermost)
+                this.steps = undefined;
+        }
+        outermost && committed && steps.length > 0 && this.push({ name: name, steps: steps });
+        return committed;
+    }
+
+    // HELPER METHODS
+
+    private replay(from: Entry[], to: Entry[], getOperations: (entry: Entry) => (() => Result)[]): boolean {
+        const entry = from[from.length - 1];
+        if (!entry || !this.fs.transaction(() => first(...getOperations(entry)).ok))
+            return false;
+        to.push(from.pop() as Entry);
+        return true;
+    }
+
+    private push(entry: Entry): void {
+        this.undoStack.push(entry);
+        if (this.undoStack.length > this.limit)
+            this.undoStack.splice(0, this.undoStack.length - this.limit);
+        this.redoStack.length = 0;
+    }
+
+    // records a step if the result of an operation is ok
+    private record(name: string, result: Result, step: Step): Result {
+        if (result.ok) {
+            if (this.steps)
+                this.steps.push(step);
+            else
+                this.push({ name: name, steps: [step] });
+        }
+        return result;
+    }
+
+    // gets an operation that restores the current order of the children of the parent of a path
+    private getOrderRestoration(path: string): () => Result {
+        const parent = this.getParent(path);
+        const children = parent === undefined ? undefined : this.getChildren(parent);
+        return () => parent === undefined || children === undefined ? OK : this.fs.trySetOrder(parent, children.filter(child => this.fs.exists(child)));
+    }
+
+    // gets the highest ancestor (or the path itself) that would be created implicitly
+    private getCreated(path: string): string {
+        let created = path;
+        for (let parent = this.getParent(path); parent !== undefined && !this.exists(parent); parent = this.getParent(parent))
+            created = parent;
+        return created;
+    }
+
+
+    // FILE & FOLDER CREATION AND DELETION
+
+    public tryCreateFolder(path: string): Result {
+        const created = this.getCreated(path);
+        return this.record("create folder", super.tryCreateFolder(path), {
+            undo: () => this.fs.tryDelete(created),
+            redo: () => this.fs.tryCreateFolder(path),
+        });
+    }
+
+    public tryCreateFile(path: string, data: T): Result {
+        const created = this.getCreated(path);
+        return this.record("create file", super.tryCreateFile(path, data), {
+            undo: () => this.fs.tryDelete(created),
+            redo: () => this.fs.tryCreateFile(path, data),
+        });
+    }
+
+    public tryDelete(path: string): Result {
+        const element = exportElement(this.fs, path);
+        const restoreOrder = this.getOrderRestoration(path);
+        return this.record("delete", super.tryDelete(path), {
+            undo: () => first(
+                () => element ? createElement(this.fs, path, element) : fail("EIO", path, "Cannot restore data"),
+                restoreOrder,
+            ),
+            redo: () => this.fs.tryDelete(path),
+        });
+    }
+
+    public tryCreateLink(path: string, target: string): Result {
+        const created = this.getCreated(path);
+        return this.record("create link", super.tryCreateLink(path, target), {
+            undo: () => this.fs.tryDelete(created),
+            redo: () => this.fs.tryCreateLink(path, target),
+        });
+    }
+
+
+    // FILE & FOLDER MODIFICATION
+
+    public tryCopy(src: string, dst: string): Result {
+        const created = this.getCreated(dst);
+        return this.record("copy", super.tryCopy(src, dst), {
+            undo: () => this.fs.tryDelete(created),
+            redo: () => this.fs.tryCopy(src, dst),
+        });
+    }
+
+    public tryMove(src: string, dst: string): Result {
+        const created = this.getCreated(dst);
+        const restoreOrder = this.getOrderRestoration(src);
+        return this.record("move", super.tryMove(src, dst), {
+            undo: () => first(
+                () => this.fs.tryMove(dst, src),
+                () => created === dst ? OK : this.fs.tryDelete(created),
+                restoreOrder,
+            ),
+            redo: () => this.fs.tryMove(src, dst),
+        });
+    }
+
+    public tryRename(path: string, name: string): Result {
+        const oldName = this.getName(path);
+        const parent = this.getParent(path);
+        return this.record("rename", super.tryRename(path, name), {
+            undo: () => parent === undefined ? fail("EINVAL", path) : this.fs.tryRename(this.getChild(parent, name), oldName),
+            redo: () => this.fs.tryRename(path, name),
+        });
+    }
+
+    public trySetData(path: string, data: T, revision?: string): Result {
+        const oldData = this.getData(path);
+        return this.record("set data", super.trySetData(path, data, revision), {
+            undo: () => oldData === undefined ? fail("EIO", path, "Cannot restore data") : this.fs.trySetData(path, oldData),
+            redo: () => this.fs.trySetData(path, data),
+        });
+    }
+
+    public trySetAttributes(path: string, attributes: Attributes): Result {
+        const metadata = this.getMetadata(path);
+        const oldAttributes = metadata ? metadata.attributes : {};
+        return this.record("set attributes", super.trySetAttributes(path, attributes), {
+            undo: () => this.fs.trySetAttributes(path, oldAttributes),
+            redo: () => this.fs.trySetAttributes(path, attributes),
+        });
+    }
+
+    public trySetOrder(path: string, children: string[]): Result {
+        const oldChildren = this.getChildren(path) || [];
+        return this.record("set order", super.trySetOrder(path, children), {
+            undo: () => this.fs.trySetOrder(path, oldChildren),
+            redo: () => this.fs.trySetOrder(path, children),
+        });
+    }
+
+
+    // TRANSACTIONS
+
+    public transaction(operations: () => boolean | void): boolean {
+        return this.checkpoint("transaction", operations);
+    }
+}
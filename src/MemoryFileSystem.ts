@@ -0,0 +1,39 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { clone, getValue, setValue, StorageObject } from "./Objects";
+import { StorageFileSystem, StorageFileSystemOptions } from "./StorageFileSystem";
+
+/**
+    Implements a file system that stores the data in memory.
+    The data is lost when the file system instance is garbage collected or
+    the plugin is reloaded. It does not require the OpenRCT2 API and can
+    therefore also be used outside of the game, e.g. for unit tests.
+*/
+export class MemoryFileSystem<T> extends StorageFileSystem<T> {
+    private readonly storage: StorageObject = {};
+
+    /** Constructs a new, empty MemoryFileSystem with the given options. */
+    public constructor(options: StorageFileSystemOptions<T> = {}) {
+        super("memory", options);
+    }
+
+    // STORAGE ACCESS
+
+    protected has(key: string): boolean {
+        return this.get(key) !== undefined;
+    }
+
+    // values are stored as JSON, like in the shared plugin storage
+    protected get<S>(key: string): S | undefined {
+        return clone(<S | undefined>getValue(this.storage, key.split(".")));
+    }
+
+    protected set<S>(key: string, value: S): void {
+        setValue(this.storage, key.split("."), clone(value));
+    }
+}
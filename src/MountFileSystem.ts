@@ -0,0 +1,397 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { getCommonAncestor, mapEvent } from "./Events";
+import { Attributes, FileSystem, FileSystemEvent, FileSystemWatcher, Metadata, Result } from "./FileSystem";
+import { hash } from "./Hash";
+import { fail } from "./Result";
+import { transfer } from "./Transfer";
+
+// path format
+// root: "" (empty string)
+// other paths: <escaped mount name>:<path in mounted file system>
+// escape char: \ (backslash)
+
+function escapeName(name: string): string {
+    return name.split("\\").join("\\\\").split(":").join("\\c");
+}
+
+function unescapeName(text: string): string {
+    // the escape sequences are replaced from left to right, such that e.g. "\\c" is decoded to "\c"
+    return text.replace(/\\(.)/g, (_, char: string) => char === "c" ? ":" : char);
+}
+
+interface Mount<T> {
+    fs: FileSystem<T>;
+    unwatch: () => void;
+}
+
+/**
+    Implements a file system that combines several file systems into one tree.
+    Each file system is mounted at a folder in the root folder, e.g. a JsonFileSystem at "global"
+    and a ParkFileSystem at "park". The root folder itself is virtual and cannot be modified.
+    The mount points cannot be deleted, moved or renamed, use unmount instead.
+    Copying and moving files and folders between different mounted file systems is supported.
+*/
+export class MountFileSystem<T> implements FileSystem<T> {
+    // without a prototype, such that names like "constructor" are not found in it
+    private readonly mounts: { [name: string]: Mount<T> } = Object.create(null);
+
+    /** Constructs a new MountFileSystem with the given file systems mounted by name. */
+    public constructor(mounts: { [name: string]: FileSystem<T> } = {}) {
+        Object.keys(mounts).forEach(name => this.mount(name, mounts[name]));
+    }
+
+    // MOUNT METHODS
+
+    /**
+        Mounts a file system at a folder with a given name in the root folder.
+        Returns if the operation succeeded, i.e. if there was no file system mounted with that name.
+    */
+    public mount(name: string, fs: FileSystem<T>): boolean {
+        if (this.mounts[name])
+            return false;
+
+        const wrap = (path: string) => escapeName(name) + ":" + path;
+        this.mounts[name] = {
+            fs: fs,
+            unwatch: fs.watch(event => this.suppressed || this.notify(mapEvent(event, wrap))),
+        };
+        this.notify({ type: "created", path: this.getMountPoint(name) });
+        return true;
+    }
+
+    /**
+        Unmounts the file system with a given name. The data of the file system is not changed.
+        Returns if the operation succeeded, i.e. if there was a file system mounted with that name.
+    */
+    public unmount(name: string): boolean {
+        const mount = this.mounts[name];
+        if (!mount)
+            return false;
+
+        const path = this.getMountPoint(name);
+        mount.unwatch();
+        delete this.mounts[name];
+        this.notify({ type: "deleted", path: path });
+        return true;
+    }
+
+    /** Gets the names of all mounted file systems. */
+    public getMounts(): string[] {
+        return Object.keys(this.mounts);
+    }
+
+    // PATH HELPER METHODS
+
+    private getMountPoint(name: string): string {
+        const mount = this.mounts[name];
+        return escapeName(name) + ":" + (mount ? mount.fs.getRoot() : "");
+    }
+
+    // splits a path into the mount and the path in the mounted file system
+    private resolve(path: string): { name: string, fs: FileSystem<T>, path: string } | undefined {
+        const idx = path.indexOf(":");
+        if (idx === -1)
+            return undefined;
+        const name = unescapeName(path.slice(0, idx));
+        const mount = this.mounts[name];
+        return mount && {
+            name: name,
+            fs: mount.fs,
+            path: path.slice(idx + 1),
+        };
+    }
+
+    private isMountPoint(path: string): boolean {
+        const resolved = this.resolve(path);
+        return resolved !== undefined && resolved.fs.getParent(resolved.path) === undefined;
+    }
+
+    // GENERAL FILE SYSTEM METHODS
+
+    public getRoot(): string {
+        return "";
+    }
+
+    private readonly watchers: FileSystemWatcher[] = [];
+    public watch(watcher: FileSystemWatcher): () => void {
+        this.watchers.push(watcher);
+        return () => {
+            const idx = this.watchers.indexOf(watcher);
+            if (idx !== -1)
+                this.watchers.splice(idx, 1);
+        };
+    }
+
+    public readOnly<S>(read: () => S): S {
+        // nest the callback into the reads of all mounted file systems
+        return this.getMounts().reduce((read, name) => () => this.mounts[name].fs.readOnly(read), read)();
+    }
+
+    // events of the current transaction
+    private pending: FileSystemEvent[] | undefined = undefined;
+    // if true, events of the mounted file systems are ignored
+    private suppressed = false;
+
+    private notify(event: FileSystemEvent): void {
+        if (this.pending)
+            this.pending.push(event);
+        else
+            this.watchers.forEach(watcher => watcher(event));
+    }
+
+
+    // FILE & FOLDER INFORMATION
+
+    public getName(path: string): string {
+        const resolved = this.resolve(path);
+        if (!resolved)
+            return path === "" ? "" : unescapeName(path.slice(0, path.indexOf(":")));
+        return this.isMountPoint(path) ? resolved.name : resolved.fs.getName(resolved.path);
+    }
+
+    public getParent(path: string): string | undefined {
+        if (path === "")
+            return undefined;
+        const resolved = this.resolve(path);
+        if (!resolved || this.isMountPoint(path))
+            return "";
+        const parent = resolved.fs.getParent(resolved.path);
+        return parent === undefined ? "" : escapeName(resolved.name) + ":" + parent;
+    }
+
+    public getChild(parent: string, name: string): string {
+        if (parent === "")
+            return this.getMountPoint(name);
+        const resolved = this.resolve(parent);
+        return resolved ? escapeName(resolved.name) + ":" + resolved.fs.getChild(resolved.path, name) : parent + ":" + escapeName(name);
+    }
+
+    public exists(path: string): boolean {
+        if (path === "")
+            return true;
+        const resolved = this.resolve(path);
+        return resolved !== undefined && resolved.fs.exists(resolved.path);
+    }
+
+    public isFolder(path: string): boolean {
+        if (path === "")
+            return true;
+        const resolved = this.resolve(path);
+        return resolved !== undefined && resolved.fs.isFolder(resolved.path);
+    }
+
+    public isFile(path: string): boolean {
+        const resolved = this.resolve(path);
+        return resolved !== undefined && resolved.fs.isFile(resolved.path);
+    }
+
+    public getChildren(path: string): string[] | undefined {
+        if (path === "")
+            return this.getMounts().map(name => this.getMountPoint(name));
+        const resolved = this.resolve(path);
+        const children = resolved && resolved.fs.getChildren(resolved.path);
+        return resolved && children && children.map(child => escapeName(resolved.name) + ":" + child);
+    }
+
+    public getData(path: string): T | undefined {
+        const resolved = this.resolve(path);
+        return resolved && resolved.fs.getData(resolved.path);
+    }
+
+    public getMetadata(path: string): Metadata | undefined {
+        if (path === "")
+            return {
+                created: undefined,
+                modified: undefined,
+                size: this.getMounts().reduce((size, name) => {
+                    const metadata = this.getMetadata(this.getMountPoint(name));
+                    return size + (metadata ? metadata.size : 0);
+                }, 0),
+                attributes: {},
+                revision: hash(this.getMounts().map(name => {
+                    const metadata = this.getMetadata(this.getMountPoint(name));
+                    return name + ":" + (metadata ? metadata.revision : "");
+                }).join("/")),
+            };
+        const resolved = this.resolve(path);
+        return resolved && resolved.fs.getMetadata(resolved.path);
+    }
+
+    public isLink(path: string): boolean {
+        const resolved = this.resolve(path);
+        return resolved !== undefined && resolved.fs.isLink(resolved.path);
+    }
+
+    public getLinkTarget(path: string): string | undefined {
+        const resolved = this.resolve(path);
+        const target = resolved && resolved.fs.getLinkTarget(resolved.path);
+        return resolved && target !== undefined ? escapeName(resolved.name) + ":" + target : undefined;
+    }
+
+
+    // FILE & FOLDER CREATION AND DELETION
+
+    public createFolder(path: string): boolean { return this.tryCreateFolder(path).ok; }
+
+    public createFile(path: string, data: T): boolean { return this.tryCreateFile(path, data).ok; }
+
+    public delete(path: string): boolean { return this.tryDelete(path).ok; }
+
+    public createLink(path: string, target: string): boolean { return this.tryCreateLink(path, target).ok; }
+
+    public tryCreateFolder(path: string): Result {
+        return this.delegate(path, (fs, path) => fs.tryCreateFolder(path));
+    }
+
+    public tryCreateFile(path: string, data: T): Result {
+        return this.delegate(path, (fs, path) => fs.tryCreateFile(path, data));
+    }
+
+    public tryDelete(path: string): Result {
+        if (this.isMountPoint(path))
+            return fail("EACCES", path, "Cannot delete a mount point");
+        return this.delegate(path, (fs, path) => fs.tryDelete(path));
+    }
+
+    // links are stored by the mounted file systems, so they cannot point to another mounted file system
+    public tryCreateLink(path: string, target: string): Result {
+        return this.delegate(path, (fs, path) => {
+            const resolved = this.resolve(target);
+            if (!resolved || resolved.fs !== fs)
+                return fail("EINVAL", path, "Cannot link to another mounted file system");
+            return fs.tryCreateLink(path, resolved.path);
+        });
+    }
+
+
+    // FILE & FOLDER MODIFICATION
+
+    public copy(src: string, dst: string): boolean { return this.tryCopy(src, dst).ok; }
+
+    public move(src: string, dst: string): boolean { return this.tryMove(src, dst).ok; }
+
+    public rename(path: string, name: string): boolean { return this.tryRename(path, name).ok; }
+
+    public setData(path: string, data: T, revision?: string): boolean { return this.trySetData(path, data, revision).ok; }
+
+    public setAttributes(path: string, attributes: Attributes): boolean { return this.trySetAttributes(path, attributes).ok; }
+
+    public setOrder(path: string, children: string[]): boolean { return this.trySetOrder(path, children).ok; }
+
+    public tryCopy(src: string, dst: string): Result {
+        return this.transfer(src, dst, false);
+    }
+
+    public tryMove(src: string, dst: string): Result {
+        if (this.isMountPoint(src))
+            return fail("EACCES", src, "Cannot move a mount point");
+        return this.transfer(src, dst, true);
+    }
+
+    public tryRename(path: string, name: string): Result {
+        if (this.isMountPoint(path))
+            return fail("EACCES", path, "Cannot rename a mount point");
+        return this.delegate(path, (fs, path) => fs.tryRename(path, name));
+    }
+
+    public trySetData(path: string, data: T, revision?: string): Result {
+        return this.delegate(path, (fs, path) => fs.trySetData(path, data, revision));
+    }
+
+    public trySetAttributes(path: string, attributes: Attributes): Result {
+        return this.delegate(path, (fs, path) => fs.trySetAttributes(path, attributes));
+    }
+
+    public trySetOrder(path: string, children: string[]): Result {
+        return this.delegate(path, (fs, path) => {
+            const resolved = children.map(child => this.resolve(child));
+            const paths = [] as string[];
+            for (let idx = 0; idx < resolved.length; idx++) {
+                const child = resolved[idx];
+                if (!child || child.fs !== fs)
+                    return fail("EINVAL", path, "Not a child of the folder: " + children[idx]);
+                paths.push(child.path);
+            }
+            return fs.trySetOrder(path, paths);
+        });
+    }
+
+    // delegates an operation to the mounted file system and maps the path of a failure back
+    private delegate(path: string, operation: (fs: FileSystem<T>, path: string) => Result): Result {
+        if (path === "")
+            return fail("EACCES", path, "Cannot modify the root folder");
+        const resolved = this.resolve(path);
+        if (!resolved)
+            return fail("ENOENT", path, "No file system mounted");
+        const result = operation(resolved.fs, resolved.path);
+        return result.ok ? result : fail(result.error.code, escapeName(resolved.name) + ":" + result.error.path, result.error.message);
+    }
+
+    // transfers within the same mounted file system are delegated,
+    // other transfers are done as copy (and delete) and reported as one event
+    // (inside of a transaction, the events of the mounted file systems are reported instead)
+    private transfer(src: string, dst: string, move: boolean): Result {
+        const from = this.resolve(src);
+        const to = this.resolve(dst);
+        if (!from)
+            return fail("ENOENT", src, "No file system mounted");
+        if (!to)
+            return fail("ENOENT", dst, "No file system mounted");
+        if (from.fs === to.fs)
+            return this.delegate(src, (fs, path) => move ? fs.tryMove(path, to.path) : fs.tryCopy(path, to.path));
+
+        this.suppressed = !this.pending;
+        let result: Result;
+        try {
+            result = transfer(from.fs, from.path, to.fs, to.path, move);
+        } finally {
+            this.suppressed = false;
+        }
+        if (!result.ok)
+            // the path of the failure belongs to the source only if the source could not be read
+            return fail(result.error.code, result.error.path === from.path ? src : dst, result.error.message);
+        if (!this.pending)
+            this.notify(move ? { type: "moved", path: dst, oldPath: src } : { type: "copied", path: dst, sourcePath: src });
+        return result;
+    }
+
+
+    // TRANSACTIONS
+
+    public transaction(operations: () => boolean | void): boolean {
+        const outermost = this.pending === undefined;
+        const pending = this.pending = this.pending || [];
+        const pendingLength = pending.length;
+
+        let committed = false;
+        try {
+            // nest the transaction into the transactions of all mounted file systems
+            committed = this.getMounts().reduce(
+                (operations, name) => () => this.mounts[name].fs.transaction(operations),
+                operations,
+            )() !== false;
+        } finally {
+            if (!committed)
+                pending.length = pendingLength;
+            if (outermost) {
+                this.pending = undefined;
+                // flatten the transactions of the mounted file systems
+                const events = [] as FileSystemEvent[];
+                pending.forEach(event => event.type === "transaction" ? events.push(...event.events) : events.push(event));
+                if (events.length > 0)
+                    this.notify({
+                        type: "transaction",
+                        path: getCommonAncestor(this, events),
+                        events: events,
+                    });
+            }
+        }
+        return committed;
+    }
+}
@@ -0,0 +1,225 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { Callback, Operation } from "./AsyncFileSystem";
+import { createElement, ExchangeElement, exportElement } from "./Exchange";
+import { FileSystem, Result } from "./FileSystem";
+import { hash } from "./Hash";
+import { MemoryFileSystem } from "./MemoryFileSystem";
+import { ActionTransport, MultiplayerTransport } from "./MultiplayerTransport";
+import { isObject } from "./Objects";
+import { resolveReference } from "./PathString";
+import { handleRequest, isQuery, isRequest, mapToReferences, Request } from "./Protocol";
+import { ProtocolFileSystem } from "./ProtocolFileSystem";
+import { fail, first, OK } from "./Result";
+
+/** The permission of a player group: "read" only allows to read, "write" also allows to modify the file system. */
+export type MultiplayerPermission = "read" | "write";
+
+/** Options for a MultiplayerFileSystem. The generic parameter <T> represents the data format of files. */
+export interface MultiplayerFileSystemOptions<T> {
+    /**
+        The file system that stores the authoritative data on the server, e.g. a JsonFileSystem.
+        It is ignored on clients, which mirror the data in memory. By default, the server stores the data in memory as well.
+    */
+    storage?: FileSystem<T>;
+
+    /** The permissions of the player groups by group id. */
+    permissions?: { [group: number]: MultiplayerPermission };
+
+    /** The permission of the player groups that have no permission in permissions. By default, it is "write". */
+    defaultPermission?: MultiplayerPermission;
+
+    /** The transport of the messages. By default, it is an ActionTransport with the name of the file system as action. */
+    transport?: MultiplayerTransport;
+}
+
+// messages of the synchronisation
+type Message<T> =
+    // a request of a player, which is executed on all peers
+    { type: "request", request: Request<T> } |
+    // a request of a client for the current data
+    { type: "synchronise" } |
+    // the current data for a client, sent by the server
+    { type: "snapshot", player: number, element: ExchangeElement<T> };
+
+/**
+    Implements an asynchronous file system that is synchronised between the server and the clients of a multiplayer game.
+    The server holds the authoritative data, and each client holds a copy in memory, which is requested when the client starts.
+    Reading is done on the local copy. Changes are sent to the server, which checks the permission of the player, the revisions
+    given to setData, and whether the change succeeds, and then executes them on all peers in the same order. Watchers are notified on all peers.
+    The file system must only be changed via this instance, otherwise the peers get out of sync.
+*/
+export class MultiplayerFileSystem<T> extends ProtocolFileSystem<T> {
+    private readonly fs: FileSystem<T>;
+    private readonly transport: MultiplayerTransport;
+    private readonly permissions: { [group: number]: MultiplayerPermission };
+    private readonly defaultPermission: MultiplayerPermission;
+    private synchronised: boolean;
+    // the requests that a client receives after its request for the current data, which are executed after receiving the data
+    private pending: Request<T>[] | undefined = undefined;
+
+    /**
+        Constructs a new MultiplayerFileSystem with a name that is unique among all plugins, e.g. "my-plugin.templates".
+        It must be constructed on all peers with the same name, e.g. when the plugin starts.
+    */
+    public constructor(name: string, options: MultiplayerFileSystemOptions<T> = {}) {
+        super();
+        this.transport = options.transport || new ActionTransport(name);
+        this.permissions = options.permissions || {};
+        this.defaultPermission = options.defaultPermission || "write";
+        this.synchronised = this.transport.isServer();
+        this.fs = this.synchronised && options.storage || new MemoryFileSystem<T>();
+
+        this.fs.watch(event => this.notify(mapToReferences(this.fs, event)));
+        this.transport.register({
+            validate: (player, message) => this.validate(player, <Message<T>>message),
+            deliver: (player, message) => this.deliver(player, <Message<T>>message),
+        });
+        this.synchronised || this.transport.send(<Message<T>>{ type: "synchronise" }, () => { });
+    }
+
+    /** Checks if the local data is synchronised with the server, i.e. if this is the server or if the client received the data. */
+    public isSynchronised(): boolean {
+        return this.synchronised;
+    }
+
+    /** Gets the permission of a player. */
+    public getPermission(player: number): MultiplayerPermission {
+        const group = this.transport.getGroup(player);
+        if (group === undefined)
+            return "write";
+        const permission = this.permissions[group];
+        return permission === undefined ? this.defaultPermission : permission;
+    }
+
+    protected send(request: Request<T>, callback: Callback<unknown>): void {
+        if (isQuery(request))
+            return callback(handleRequest(this.fs, request));
+
+        // the revision is checked locally, and then replaced by the revision of the content for the check on the server
+        const checked = this.checkRevisions(request, path => {
+            const metadata = this.fs.getMetadata(path);
+            return metadata && metadata.revision;
+        });
+        if (!checked.ok)
+            return callback(checked);
+        this.transport.send(<Message<T>>{ type: "request", request: this.mapRevisions(request, path => this.getContentRevision(path)) }, callback);
+    }
+
+    /**
+        Gets a revision of the data and attributes of a file, which is the same on all peers, unlike the revision of the metadata,
+        since the timestamps differ slightly between the peers.
+    */
+    private getContentRevision(path: string): string | undefined {
+        const metadata = this.fs.getMetadata(path);
+        return metadata && hash(JSON.stringify([this.fs.getData(path), metadata.attributes]));
+    }
+
+    // checks the revisions of setData against the current revisions of the files, which are undefined if the files do not exist
+    private checkRevisions(request: Request<T>, getRevision: (path: string) => string | undefined): Result {
+        switch (request.type) {
+            case "setData": {
+                const path = request.revision === undefined ? undefined : resolveReference(this.fs, request.path);
+                const revision = path === undefined ? undefined : getRevision(path);
+                return revision !== undefined && revision !== request.revision ? fail("ESTALE", request.path) : OK;
+            }
+            case "transaction":
+                return first(...request.operations.map(operation => () => this.checkRevisions(operation, getRevision)));
+            default:
+                return OK;
+        }
+    }
+
+    // replaces the revisions of setData, which are removed if the replacement is undefined
+    private mapRevisions(request: Request<T>, map: (path: string) => string | undefined = () => undefined): Request<T> {
+        switch (request.type) {
+            case "setData": {
+                const path = request.revision === undefined ? undefined : resolveReference(this.fs, request.path);
+                const revision = path === undefined ? undefined : map(path);
+                return revision === undefined
+                    ? { type: "setData", path: request.path, data: request.data }
+                    : { type: "setData", path: request.path, data: request.data, revision: revision };
+            }
+            case "transaction":
+                return { type: "transaction", operations: request.operations.map(operation => <Operation<T>>this.mapRevisions(operation, map)) };
+            default:
+                return request;
+        }
+    }
+
+    // validates a message on the server
+    private validate(player: number, message: Message<T>): Result {
+        if (!isObject(message))
+            return fail("EINVAL", "/", "Invalid request");
+        switch (message.type) {
+            case "request": {
+                if (!isRequest(message.request) || isQuery(message.request))
+                    return fail("EINVAL", "/", "Invalid request");
+                if (this.getPermission(player) !== "write")
+                    return fail("EACCES", "/", "Permission denied");
+                const checked = this.checkRevisions(message.request, path => this.getContentRevision(path));
+                if (!checked.ok)
+                    return checked;
+                // the request is executed and rolled back to check if it succeeds
+                const request = this.mapRevisions(message.request);
+                let result = OK;
+                this.fs.transaction(() => {
+                    result = <Result>handleRequest(this.fs, request);
+                    return false;
+                });
+                return result;
+            }
+            case "synchronise":
+                return OK;
+            case "snapshot":
+                if (!isObject(message.element))
+                    return fail("EINVAL", "/", "Invalid request");
+                return player === this.transport.getPlayer() ? OK : fail("EACCES", "/", "Permission denied");
+            default:
+                return fail("EINVAL", "/", "Invalid request");
+        }
+    }
+
+    // executes a valid message on all peers
+    private deliver(player: number, message: Message<T>): void {
+        if (!isObject(message))
+            return;
+        switch (message.type) {
+            case "request": {
+                // the revisions were checked by the server
+                const request = this.mapRevisions(message.request);
+                // the data sent to a client does not contain the requests after its request for the data
+                this.pending ? this.pending.push(request) : handleRequest(this.fs, request);
+                return;
+            }
+            case "synchronise": {
+                if (player === this.transport.getPlayer() && !this.synchronised)
+                    this.pending = [];
+                const element = this.transport.isServer() && exportElement(this.fs, this.fs.getRoot());
+                element && this.transport.send(<Message<T>>{ type: "snapshot", player: player, element: element }, () => { });
+                return;
+            }
+            case "snapshot": {
+                if (message.player !== this.transport.getPlayer() || this.transport.isServer() || message.element.type !== "folder")
+                    return;
+                const root = this.fs.getRoot();
+                const children = message.element.children;
+                const attributes = message.element.attributes || {};
+                this.fs.transaction(() => {
+                    (this.fs.getChildren(root) || []).forEach(child => this.fs.delete(child));
+                    children.forEach(child => createElement(this.fs, this.fs.getChild(root, child.name), child));
+                    this.fs.setAttributes(root, attributes);
+                });
+                (this.pending || []).forEach(request => handleRequest(this.fs, request));
+                this.pending = undefined;
+                this.synchronised = true;
+                return;
+            }
+        }
+    }
+}
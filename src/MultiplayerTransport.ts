@@ -0,0 +1,96 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { FileSystemErrorCode, Result } from "./FileSystem";
+import { fail, OK } from "./Result";
+
+/** The handlers of the messages that are exchanged by a MultiplayerTransport. */
+export interface MultiplayerHandlers {
+    /** Called on the server to validate a message of a player. Only valid messages are delivered. */
+    validate(player: number, message: unknown): Result;
+
+    /** Called on all peers (including the server) to deliver a valid message, in the same order on all peers. */
+    deliver(player: number, message: unknown): void;
+}
+
+/**
+    Transports the messages of a MultiplayerFileSystem between the server and the clients.
+    It can be replaced, e.g. by an in-process fake network to test the synchronisation outside of the game.
+*/
+export interface MultiplayerTransport {
+    /** Checks if this peer is the server, which holds the authoritative data. Without multiplayer, it is the server. */
+    isServer(): boolean;
+
+    /** Gets the id of the player of this peer. */
+    getPlayer(): number;
+
+    /** Gets the id of the group of a player, or undefined if there are no groups, e.g. without multiplayer. */
+    getGroup(player: number): number | undefined;
+
+    /** Registers the handlers. It is called once, before any message is sent. */
+    register(handlers: MultiplayerHandlers): void;
+
+    /** Sends a message via the server, which validates it and delivers it to all peers. The callback gets the result of the validation. */
+    send(message: unknown, callback: (result: Result) => void): void;
+}
+
+/**
+    Implements a transport by a custom game action, which OpenRCT2 validates on the server and executes on all peers.
+    The name of the action must be unique among all plugins.
+*/
+export class ActionTransport implements MultiplayerTransport {
+    private readonly action: string;
+
+    /** Constructs a new ActionTransport for a custom game action with a given name. */
+    public constructor(action: string) {
+        this.action = action;
+    }
+
+    public isServer(): boolean {
+        return network.mode !== "client";
+    }
+
+    public getPlayer(): number {
+        return network.mode === "none" ? 0 : network.currentPlayer.id;
+    }
+
+    public getGroup(player: number): number | undefined {
+        return network.mode === "none" ? undefined : network.getPlayer(player).group;
+    }
+
+    public register(handlers: MultiplayerHandlers): void {
+        // clients cannot validate the messages, only the server can
+        const validate = (args: GameActionEventArgs<{ message: unknown }>): GameActionResult => {
+            const result = this.isServer() ? handlers.validate(args.player, args.args.message) : OK;
+            return result.ok ? {} : {
+                error: 1,
+                // the path is part of the title, since the result has no other fields to transport it
+                errorTitle: `${result.error.code} ${result.error.path}`,
+                errorMessage: result.error.message,
+            };
+        };
+        context.registerAction<{ message: unknown }>(this.action, validate, args => {
+            const result = validate(args);
+            result.error || handlers.deliver(args.player, args.args.message);
+            return result;
+        });
+    }
+
+    public send(message: unknown, callback: (result: Result) => void): void {
+        context.executeAction(this.action, { message: message }, result => {
+            if (!result.error)
+                return callback(OK);
+            const title = result.errorTitle || "EIO";
+            const idx = title.indexOf(" ");
+            callback(fail(
+                <FileSystemErrorCode>(idx === -1 ? title : title.slice(0, idx)),
+                idx === -1 ? "/" : title.slice(idx + 1),
+                result.errorMessage,
+            ));
+        });
+    }
+}
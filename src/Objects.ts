@@ -0,0 +1,53 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+// helpers for plain objects like the ones in a storage with JS dot notation keys
+
+/** An object whose properties are accessed by name. */
+export type StorageObject = { [key: string]: unknown };
+
+/** Checks if a value is an object (including arrays) and not null. */
+export function isObject(value: unknown): value is StorageObject {
+    return typeof value === "object" && value !== null;
+}
+
+/** Clones a value like it is done when storing it as JSON. */
+export function clone<S>(value: S): S {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/** Gets the value of nested properties of an object, e.g. ["a", "b"] for object.a.b, or undefined if it does not exist. */
+export function getValue(object: unknown, names: string[]): unknown {
+    let value = object;
+    for (const name of names) {
+        if (!isObject(value))
+            return undefined;
+        value = value[name];
+    }
+    return value;
+}
+
+/**
+    Sets the value of nested properties of an object, e.g. ["a", "b"] for object.a.b, or removes it if the value is undefined.
+    Missing objects are created, unless the value is removed.
+*/
+export function setValue(object: StorageObject, names: string[], value: unknown): void {
+    const last = names[names.length - 1];
+    for (const name of names.slice(0, -1)) {
+        const child = object[name];
+        if (isObject(child))
+            object = child;
+        else if (value === undefined)
+            return;
+        else
+            object = object[name] = {};
+    }
+    if (value === undefined)
+        delete object[last];
+    else
+        object[last] = value;
+}
@@ -0,0 +1,44 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { StorageFileSystem, StorageFileSystemOptions } from "./StorageFileSystem";
+
+/**
+    Implements a file system that stores the data in the park storage of the plugin.
+    The data is saved inside the park file and is therefore only available while that park is loaded.
+*/
+export class ParkFileSystem<T> extends StorageFileSystem<T> {
+
+    /**
+        Constructs a new ParkFileSystem with a given namespace.
+        Each file system is identified by its namespace, which must be a valid
+        identifier using JS dot notation, e.g. "my-plugin.data" or
+        "my-plugin.data.saves", but not just "my-plugin".
+        The namespace is the path in the park storage under which the
+        filesystem will be saved.
+        The options can be used to configure e.g. a schema or a validation for the file data.
+    */
+    public constructor(namespace: string, options: StorageFileSystemOptions<T> = {}) {
+        super(namespace, options);
+    }
+
+    // STORAGE ACCESS
+    // (The park storage changes when another park is loaded,
+    // so it has to be obtained again for each access.)
+
+    protected has(key: string): boolean {
+        return context.getParkStorage().has(key);
+    }
+
+    protected get<S>(key: string): S | undefined {
+        return context.getParkStorage().get(key);
+    }
+
+    protected set<S>(key: string, value: S): void {
+        context.getParkStorage().set(key, value);
+    }
+}
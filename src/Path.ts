@@ -5,7 +5,41 @@
  * under the GNU General Public License version 3.
  *****************************************************************************/
 
-import { FileSystem } from "./FileSystem";
+import { Attributes, FileSystem, FileSystemEvent, Metadata, Result } from "./FileSystem";
+import { filterEvent, mapEvent } from "./Events";
+import { ConflictStrategy, createLink, ExchangeElement, exportElement, parse, stringify } from "./Exchange";
+import { GLOBSTAR, parseGlob } from "./Glob";
+import { compareNames, getReference, resolvePath, resolveReference } from "./PathString";
+import { fail } from "./Result";
+import { transfer } from "./Transfer";
+
+/**
+    A callback function for visiting paths during a walk.
+    The depth is 0 for the path on which the walk was started.
+    If it returns false, then the children of the visited path are skipped.
+*/
+export type PathVisitor<T> = (path: Path<T>, depth: number) => boolean | void;
+
+/** The order in which a walk visits the paths. */
+export type WalkOrder = "depthFirst" | "breadthFirst";
+
+/** A function that compares two paths, like the compare function of Array.sort. */
+export type PathComparator<T> = (fst: Path<T>, snd: Path<T>) => number;
+
+/** Options to sort the children of a folder. By default, the children are in their persisted order. */
+export interface ChildrenOptions<T> {
+    /** Sorts the children by name in natural order, e.g. "ride 2" before "ride 10", or by a custom comparator. */
+    sortBy?: "name" | PathComparator<T>;
+
+    /** If true, then folders are listed before files. */
+    foldersFirst?: boolean;
+
+    /** If true, then the children are sorted in descending order (folders are still listed first). */
+    descending?: boolean;
+}
+
+/** A callback function for changes of a path. */
+export type PathWatcher<T> = (event: FileSystemEvent<Path<T>>) => void;
 
 /**
     A wrapper around a file system path to provide convenience methods.
@@ -29,6 +63,27 @@ export class Path<T> {
     /** Returns the root of a file system as a path. */
     public static getRoot<T>(fs: FileSystem<T>): Path<T> { return new Path(fs, fs.getRoot()); }
 
+    /**
+        Resolves a path string relative to a base path, e.g. "templates/rides" or "../park/rides".
+        Names are separated by "/", "." refers to the current folder and ".." refers to the parent folder.
+        If the path string starts with "/", then it is resolved relative to the root instead.
+        Use "\" to escape these characters, e.g. in names which contain "/" or which are "..", and "\e" for an empty name.
+        Returns undefined if the path string refers to the parent of the root.
+    */
+    public static resolve<T>(base: Path<T>, text: string): Path<T> | undefined {
+        const path = resolvePath(base.fs, base.path, text);
+        return path === undefined ? undefined : new Path(base.fs, path);
+    }
+
+    /**
+        Gets the path of a file system that is referenced by a path reference (see getReference),
+        or undefined if the reference is invalid.
+    */
+    public static fromReference<T>(fs: FileSystem<T>, reference: string): Path<T> | undefined {
+        const path = resolveReference(fs, reference);
+        return path === undefined ? undefined : new Path(fs, path);
+    }
+
     /** Checks if two paths are equal. */
     public static equals(fst: Path<unknown> | undefined, snd: Path<unknown> | undefined): boolean {
         if (fst === undefined && snd === undefined)
@@ -41,12 +96,40 @@ export class Path<T> {
     /**
         Gets a formatted string representation of the path with given delimiter or "/" by default.
         Note that the folder and file names can contain the delimiter aswell.
+        Use getReference for an unambiguous representation.
     */
     public formatPath(delimiter: string = "/"): string {
         const parent = this.getParent();
         return (parent ? parent.formatPath(delimiter) : "") + this.getName() + (this.isFolder() ? delimiter : "");
     }
 
+    /**
+        Gets a reference to this path, which is an escaped absolute path string like "/templates/rides".
+        The reference is a string that can be stored e.g. in the settings of a plugin and that is
+        resolved by Path.fromReference. It does not depend on whether the file or folder exists.
+        An empty name is referenced by "\e", e.g. "/\e/x" for the child "x" of a child with an empty name.
+    */
+    public getReference(): string { return getReference(this.fs, this.path); }
+
+    /**
+        Resolves a path string relative to this path, e.g. "../park/rides".
+        Returns undefined if the path string refers to the parent of the root.
+    */
+    public resolve(text: string): Path<T> | undefined { return Path.resolve(this, text); }
+
+    /**
+        Adds a watcher to this path.
+        The watcher gets notified by changes to this file or folder, to its ancestors, and to its children.
+        If recursive is true, then it also gets notified by changes to all of its descendants.
+        Returns a callback to unwatch.
+    */
+    public watch(watcher: PathWatcher<T>, recursive: boolean = false): () => void {
+        return this.fs.watch(event => {
+            const relevant = filterEvent(this.fs, event, this.path, recursive);
+            relevant && watcher(mapEvent(relevant, path => new Path(this.fs, path)));
+        });
+    }
+
 
     // FILE INFORMATION
 
@@ -71,15 +154,118 @@ export class Path<T> {
     /** Checks if this path represents a file. */
     public isFile(): boolean { return this.fs.isFile(this.path); };
 
-    /** Gets contained files if this path represents a folder and undefined otherwise. */
-    public getChildren(): Path<T>[] | undefined {
+    /**
+        Gets contained files if this path represents a folder and undefined otherwise.
+        The files are in their persisted order, unless they are sorted by the given options.
+    */
+    public getChildren(options: ChildrenOptions<T> = {}): Path<T>[] | undefined {
         const files = this.fs.getChildren(this.path);
-        return files && files.map(path => new Path(this.fs, path));
+        if (!files)
+            return undefined;
+
+        const compare = options.sortBy === "name" ? (fst: Path<T>, snd: Path<T>) => compareNames(fst.getName(), snd.getName()) : options.sortBy;
+        const direction = options.descending ? -1 : 1;
+        // the index makes the sort stable
+        return files.map((path, idx) => ({
+            path: new Path(this.fs, path),
+            idx: idx,
+            folder: options.foldersFirst ? this.fs.isFolder(path) : false,
+        })).sort((fst, snd) =>
+            Number(snd.folder) - Number(fst.folder)
+            || direction * (compare ? compare(fst.path, snd.path) : 0)
+            || direction * (fst.idx - snd.idx)
+        ).map(child => child.path);
     };
 
     /** Gets data of file if this path represent a file and undefined otherwise. */
     public getData(): T | undefined { return this.fs.getData(this.path); };
 
+    /** Gets the metadata of this file or folder, or undefined if it does not exist. */
+    public getMetadata(): Metadata | undefined { return this.fs.getMetadata(this.path); };
+
+    /** Checks if this path represents a link. */
+    public isLink(): boolean { return this.fs.isLink(this.path); };
+
+    /** Gets the path to which this link points, or undefined if this path is not a link. The target might not exist. */
+    public getLinkTarget(): Path<T> | undefined {
+        const target = this.fs.getLinkTarget(this.path);
+        return target === undefined ? undefined : new Path(this.fs, target);
+    };
+
+    /** Checks if this path represents a broken link, i.e. if its target does not exist or if links form a cycle. */
+    public isBrokenLink(): boolean { return this.isLink() && !this.isFile() && !this.isFolder(); };
+
+
+    // TRAVERSAL & SEARCH
+
+    /**
+        Visits this path and all of its descendants in depth-first (pre-order) or breadth-first order.
+        Children of a path are skipped if the visitor returns false for it.
+        Links are visited, but not followed, such that each file or folder is visited at most once.
+    */
+    public walk(visitor: PathVisitor<T>, order: WalkOrder = "depthFirst"): void {
+        if (order === "depthFirst") {
+            const visit = (path: Path<T>, depth: number): void => {
+                if (visitor(path, depth) === false || path.isLink())
+                    return;
+                const children = path.getChildren();
+                children && children.forEach(child => visit(child, depth + 1));
+            };
+            visit(this, 0);
+        } else {
+            const queue: [Path<T>, number][] = [[this, 0]];
+            for (let idx = 0; idx < queue.length; idx++) {
+                const [path, depth] = queue[idx];
+                if (visitor(path, depth) === false || path.isLink())
+                    continue;
+                const children = path.getChildren();
+                children && children.forEach(child => queue.push([child, depth + 1]));
+            }
+        }
+    }
+
+    /**
+        Gets all descendants of this path (excluding the path itself) for which the predicate returns true,
+        in depth-first order. The predicate can e.g. check the name, the type or the data of a path.
+    */
+    public find(predicate: (path: Path<T>) => boolean): Path<T>[] {
+        const result = [] as Path<T>[];
+        this.walk((path, depth) => {
+            depth > 0 && predicate(path) && result.push(path);
+        });
+        return result;
+    }
+
+    /**
+        Gets all descendants of this path whose relative path matches a glob pattern, e.g. "templates/**" or "templates/?ench*".
+        Names are separated by "/", "*" matches any number of characters within a name, "?" matches a single
+        character and "**" matches any number of folders. Use "\" to escape these characters, e.g. in names
+        which contain "/". A "." has no special meaning. Links are matched, but not followed.
+    */
+    public glob(pattern: string): Path<T>[] {
+        const segments = parseGlob(pattern);
+        const visited: { [path: string]: boolean } = {};
+        const result = [] as Path<T>[];
+
+        const visit = (path: Path<T>, idx: number): void => {
+            if (idx === segments.length) {
+                if (!visited[path.path] && path !== this)
+                    result.push(path);
+                visited[path.path] = true;
+                return;
+            }
+            const segment = segments[idx];
+            const children = path.isLink() ? [] : path.getChildren() || [];
+            if (segment === GLOBSTAR) {
+                visit(path, idx + 1);
+                children.forEach(child => visit(child, idx));
+            } else
+                children.filter(child => segment.test(child.getName())).forEach(child => visit(child, idx + 1));
+        };
+        visit(this, 0);
+        return result;
+    }
+
 
     // FILE & FOLDER CREATION AND DELETION
 
@@ -110,20 +296,50 @@ export class Path<T> {
     /** Deletes the file or folder. */
     public delete(): boolean { return this.fs.delete(this.path); };
 
+    /** Creates a folder at this path. Returns the result of the operation. */
+    public tryCreateFolder(): Result { return this.fs.tryCreateFolder(this.path); }
+
+    /** Creates a file at this path with the given content. Returns the result of the operation. */
+    public tryCreateFile(content: T): Result { return this.fs.tryCreateFile(this.path, content); }
+
+    /** Deletes the file or folder. Returns the result of the operation. */
+    public tryDelete(): Result { return this.fs.tryDelete(this.path); };
+
+    /**
+        If this path represents a folder, then adds a new link with a given name to it, which points to a target path.
+        Returns the path of the new link, or undefined if the operation failed.
+    */
+    public addLink(name: string, target: Path<T>): Path<T> | undefined {
+        const path = this.getChild(name);
+        return path.createLink(target) ? path : undefined;
+    };
+
+    /** Creates a link at this path that points to a target path, which must belong to the same file system. */
+    public createLink(target: Path<T>): boolean { return this.tryCreateLink(target).ok; }
+
+    /** Creates a link at this path that points to a target path, which must belong to the same file system. Returns the result of the operation. */
+    public tryCreateLink(target: Path<T>): Result {
+        if (target.fs !== this.fs)
+            return fail("EINVAL", this.path, "Cannot link to another file system");
+        return this.fs.tryCreateLink(this.path, target.path);
+    }
+
 
     // FILE & FOLDER MODIFICATION
 
     /**
         Copies the file or folder to a destination given by a parent and a name.
+        The destination may belong to another file system.
         Returns if the operation succeeded.
     */
-    public copy(destination: Path<T>): boolean { return this.fs.copy(this.path, destination.path); };
+    public copy(destination: Path<T>): boolean { return this.tryCopy(destination).ok; };
 
     /**
         Moves the file or folder to a destination given by a parent and a name.
+        The destination may belong to another file system.
         Returns if the operation succeeded.
     */
-    public move(destination: Path<T>): boolean { return this.fs.move(this.path, destination.path); };
+    public move(destination: Path<T>): boolean { return this.tryMove(destination).ok; };
 
     /**
         Renames the file or folder.
@@ -133,7 +349,193 @@ export class Path<T> {
 
     /**
         If this path represents a file, then sets the data of the file.
+        If a revision is given, then the operation fails if the file was changed since that revision was read from its metadata.
+        Returns if the operation succeeded.
+    */
+    public setData(content: T, revision?: string): boolean { return this.fs.setData(this.path, content, revision); };
+
+    /**
+        Sets the user-defined attributes of the file or folder.
         Returns if the operation succeeded.
     */
-    public setData(content: T): boolean { return this.fs.setData(this.path, content); };
+    public setAttributes(attributes: Attributes): boolean { return this.fs.setAttributes(this.path, attributes); };
+
+    /**
+        Copies the file or folder to a destination, which may belong to another file system.
+        Returns the result of the operation.
+    */
+    public tryCopy(destination: Path<T>): Result {
+        if (destination.fs === this.fs)
+            return this.fs.tryCopy(this.path, destination.path);
+        return transfer(this.fs, this.path, destination.fs, destination.path, false);
+    };
+
+    /**
+        Moves the file or folder to a destination, which may belong to another file system.
+        Moving between file systems is done by copying and deleting the file or folder in one
+        transaction on both file systems, i.e. if any part fails, then nothing is changed.
+        Returns the result of the operation.
+    */
+    public tryMove(destination: Path<T>): Result {
+        if (destination.fs === this.fs)
+            return this.fs.tryMove(this.path, destination.path);
+        return transfer(this.fs, this.path, destination.fs, destination.path, true);
+    };
+
+    /**
+        If this path represents a folder, then sets the order of its children. The given children are
+        ordered first, followed by the remaining children in their previous order.
+        Returns if the operation succeeded.
+    */
+    public setOrder(children: Path<T>[]): boolean { return this.trySetOrder(children).ok; };
+
+    /** Moves this file or folder to a given index in the order of the children of its parent. Returns if the operation succeeded. */
+    public moveToIndex(index: number): boolean { return this.tryMoveToIndex(index).ok; };
+
+    /** Moves this file or folder before a sibling in the order of the children of its parent. Returns if the operation succeeded. */
+    public moveBefore(sibling: Path<T>): boolean { return this.tryMoveBefore(sibling).ok; };
+
+    /** Moves this file or folder after a sibling in the order of the children of its parent. Returns if the operation succeeded. */
+    public moveAfter(sibling: Path<T>): boolean { return this.tryMoveAfter(sibling).ok; };
+
+    /** Renames the file or folder. Returns the result of the operation. */
+    public tryRename(name: string): Result { return this.fs.tryRename(this.path, name); };
+
+    /**
+        If this path represents a file, then sets the data of the file, optionally only if it still has a given revision.
+        Returns the result of the operation.
+    */
+    public trySetData(content: T, revision?: string): Result { return this.fs.trySetData(this.path, content, revision); };
+
+    /** Sets the user-defined attributes of the file or folder. Returns the result of the operation. */
+    public trySetAttributes(attributes: Attributes): Result { return this.fs.trySetAttributes(this.path, attributes); };
+
+    /** If this path represents a folder, then sets the order of its children. Returns the result of the operation. */
+    public trySetOrder(children: Path<T>[]): Result {
+        const foreign = children.filter(child => child.fs !== this.fs)[0];
+        if (foreign)
+            return fail("EINVAL", this.path, "Not a child of the folder: " + foreign.formatPath());
+        return this.fs.trySetOrder(this.path, children.map(child => child.path));
+    };
+
+    /** Moves this file or folder to a given index in the order of the children of its parent. Returns the result of the operation. */
+    public tryMoveToIndex(index: number): Result { return this.reorder(() => index); };
+
+    /** Moves this file or folder before a sibling in the order of the children of its parent. Returns the result of the operation. */
+    public tryMoveBefore(sibling: Path<T>): Result { return this.reorder(siblings => this.indexOf(siblings, sibling)); };
+
+    /** Moves this file or folder after a sibling in the order of the children of its parent. Returns the result of the operation. */
+    public tryMoveAfter(sibling: Path<T>): Result {
+        return this.reorder(siblings => {
+            const idx = this.indexOf(siblings, sibling);
+            return idx === undefined ? undefined : idx + 1;
+        });
+    };
+
+    // inserts this path into its siblings at an index and sets the order of its parent
+    private reorder(getIndex: (siblings: Path<T>[]) => number | undefined): Result {
+        const parent = this.getParent();
+        if (!parent)
+            return fail("EINVAL", this.path, "Cannot reorder the root folder");
+        const children = parent.getChildren();
+        if (!children || !this.exists())
+            return fail("ENOENT", this.path);
+
+        const siblings = children.filter(child => !Path.equals(child, this));
+        const index = getIndex(siblings);
+        if (index === undefined)
+            return fail("EINVAL", this.path, "Not a sibling");
+        siblings.splice(Math.max(0, Math.min(index, siblings.length)), 0, this);
+        return parent.trySetOrder(siblings);
+    }
+
+    private indexOf(paths: Path<T>[], path: Path<T>): number | undefined {
+        for (let idx = 0; idx < paths.length; idx++)
+            if (Path.equals(paths[idx], path))
+                return idx;
+        return undefined;
+    }
+
+
+    // EXPORT & IMPORT
+
+    /**
+        Exports this file or folder, including its content, to a versioned text that can be imported into any file system.
+        Returns undefined if this file or folder does not exist.
+    */
+    public export(): string | undefined {
+        const element = exportElement(this.fs, this.path);
+        return element && stringify(element);
+    }
+
+    /**
+        If this path represents a folder, then imports an exported file or folder into it.
+        The conflict strategy describes how to handle files and folders that already exist.
+        The import is atomic, i.e. if any part of it fails, then nothing is imported.
+        Returns the path of the imported file or folder, or undefined if the import failed or was skipped.
+    */
+    public import(text: string, strategy: ConflictStrategy = "skip"): Path<T> | undefined {
+        const element = parse(text);
+        if (!element || !this.isFolder())
+            return undefined;
+
+        let result: Path<T> | undefined = undefined;
+        const committed = this.transaction(() => {
+            let failed = false;
+            const importElement = (parent: Path<T>, element: ExchangeElement<unknown>): Path<T> | undefined => {
+                let path = parent.getChild(element.name);
+                if (path.exists())
+                    switch (strategy) {
+                        case "skip":
+                            return undefined;
+                        case "overwrite":
+                            failed = failed || !path.delete();
+                            break;
+                        case "merge":
+                            if (element.type === "folder" && path.isFolder() && !path.isLink()) {
+                                element.children.forEach(child => failed || importElement(path, child));
+                                return path;
+                            }
+                        // fall through
+                        case "rename":
+                            path = parent.getAvailableChild(element.name);
+                            break;
+                    }
+                if (failed)
+                    return undefined;
+
+                if (element.type === "folder") {
+                    failed = !path.createFolder();
+                    element.children.forEach(child => failed || importElement(path, child));
+                } else if (element.type === "link")
+                    failed = !createLink(this.fs, path.path, element.target).ok;
+                else
+                    failed = !path.createFile(<T>element.data);
+                if (!failed && element.attributes)
+                    failed = !path.setAttributes(element.attributes);
+                return path;
+            };
+            result = importElement(this, element);
+            return !failed;
+        });
+        return committed ? result : undefined;
+    }
+
+    /** Gets the child path with the given name, or with the name and a suffix like " (2)" if that child already exists. */
+    private getAvailableChild(name: string): Path<T> {
+        let path = this.getChild(name);
+        for (let idx = 2; path.exists(); idx++)
+            path = this.getChild(`${name} (${idx})`);
+        return path;
+    }
+
+
+    // TRANSACTIONS
+
+    /**
+        Executes the operations of a callback as one atomic transaction on the file system of this path.
+        If the callback returns false or throws an error, then all changes are rolled back.
+        Returns if the transaction was committed.
+    */
+    public transaction(operations: () => boolean | void): boolean { return this.fs.transaction(operations); };
 }
@@ -0,0 +1,114 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+// path string syntax
+// segment delimiter: / (forward slash)
+// absolute paths start with a delimiter, empty segments are ignored
+// special segments: . (current folder), .. (parent folder)
+// escape char: \ (backslash), escapes the following character
+// empty name: \e (an escaped nothing), e.g. "/\e/x" for the child "x" of the child "" of the root
+
+import { FileSystem } from "./FileSystem";
+
+/** The methods of a file system that compute paths, which are the same for synchronous and asynchronous file systems. */
+export type PathOperations = Pick<FileSystem<unknown>, "getRoot" | "getName" | "getParent" | "getChild">;
+
+/** A segment of a path string, either the name of a child or a reference to the parent. */
+export type PathSegment = {
+    type: "child",
+    name: string,
+} | {
+    type: "parent",
+};
+
+/** A parsed path string. */
+export interface ParsedPath {
+    absolute: boolean;
+    segments: PathSegment[];
+}
+
+/** Escapes a name such that it is parsed as a single child segment. */
+export function escapeName(name: string): string {
+    if (name === "")
+        return "\\e";
+    const escaped = name.split("\\").join("\\\\").split("/").join("\\/");
+    return escaped === "." || escaped === ".." ? "\\" + escaped : escaped;
+}
+
+/** Parses a path string into its segments. */
+export function parsePath(text: string): ParsedPath {
+    const segments = [] as PathSegment[];
+    let name = "";
+    let escaped = false;
+
+    const push = () => {
+        if (escaped || (name !== "" && name !== "."))
+            segments.push(!escaped && name === ".." ? { type: "parent" } : { type: "child", name: name });
+        name = "";
+        escaped = false;
+    };
+
+    for (let idx = 0; idx < text.length; idx++) {
+        const char = text.charAt(idx);
+        if (char === "\\" && idx + 1 < text.length) {
+            const next = text.charAt(++idx);
+            name += next === "e" ? "" : next;
+            escaped = true;
+        } else if (char === "/")
+            push();
+        else
+            name += char;
+    }
+    push();
+    return {
+        absolute: text.charAt(0) === "/",
+        segments: segments,
+    };
+}
+
+/** Resolves a path string relative to a base path. Returns undefined if it refers to the parent of the root. */
+export function resolvePath(fs: PathOperations, base: string, text: string): string | undefined {
+    const parsed = parsePath(text);
+    let path: string | undefined = parsed.absolute ? fs.getRoot() : base;
+    for (let idx = 0; idx < parsed.segments.length && path !== undefined; idx++) {
+        const segment: PathSegment = parsed.segments[idx];
+        path = segment.type === "parent" ? fs.getParent(path) : fs.getChild(path, segment.name);
+    }
+    return path;
+}
+
+/** Gets the reference of a path, i.e. an escaped absolute path string like "/templates/rides". */
+export function getReference(fs: PathOperations, path: string): string {
+    const parent = fs.getParent(path);
+    if (parent === undefined)
+        return "/";
+    return (fs.getParent(parent) !== undefined ? getReference(fs, parent) : "") + "/" + escapeName(fs.getName(path));
+}
+
+/** Gets the path that is referenced by a reference, or undefined if the reference is invalid. */
+export function resolveReference(fs: PathOperations, reference: string): string | undefined {
+    return reference.charAt(0) === "/" ? resolvePath(fs, fs.getRoot(), reference) : undefined;
+}
+
+/**
+    Compares two names in natural order, i.e. case-insensitive and with numbers compared by their value,
+    e.g. "ride 2" < "Ride 10". Can be used as compare function of Array.sort.
+*/
+export function compareNames(fst: string, snd: string): number {
+    const fstChunks = fst.toLowerCase().match(/\d+|\D+/g) || [];
+    const sndChunks = snd.toLowerCase().match(/\d+|\D+/g) || [];
+    for (let idx = 0; idx < fstChunks.length && idx < sndChunks.length; idx++) {
+        const fstChunk = fstChunks[idx];
+        const sndChunk = sndChunks[idx];
+        const diff = /\d/.test(fstChunk) && /\d/.test(sndChunk)
+            ? Number(fstChunk) - Number(sndChunk)
+            : fstChunk.localeCompare(sndChunk);
+        if (diff !== 0)
+            return diff;
+    }
+    return fstChunks.length - sndChunks.length || (fst < snd ? -1 : fst > snd ? 1 : 0);
+}
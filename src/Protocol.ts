@@ -0,0 +1,240 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+// protocol between an asynchronous file system (client) and a file system (server)
+// each message is a JSON object in one line, terminated by a line feed ("\n")
+// client -> server: { id: number, request: Request }
+// server -> client: { id: number, response: unknown }, the response to the request with the same id
+// server -> client: { event: FileSystemEvent }, a change of the file system
+// all paths in requests, responses and events are references, e.g. "/templates/rides"
+// queries respond with the return value of the method of the same name, operations respond with a Result
+
+import { Operation } from "./AsyncFileSystem";
+import { FileSystem, FileSystemEvent, Result } from "./FileSystem";
+import { mapEvent } from "./Events";
+import { isObject } from "./Objects";
+import { getReference, resolveReference } from "./PathString";
+import { fail, OK } from "./Result";
+
+/** A request that reads information about a file or folder. */
+export type Query = { type: "exists" | "isFolder" | "isFile" | "getChildren" | "getData" | "getMetadata" | "isLink" | "getLinkTarget", path: string };
+
+/** A request of the protocol. */
+export type Request<T> = Query | Operation<T> | { type: "transaction", operations: Operation<T>[] };
+
+/** A message from the client to the server. */
+export type ClientMessage<T> = { id: number, request: Request<T> };
+
+/** A message from the server to the client. */
+export type ServerMessage = { id: number, response: unknown } | { event: FileSystemEvent };
+
+/** Checks if a request is a query, i.e. if it does not change the file system. */
+export function isQuery(request: Request<unknown>): request is Query {
+    switch (request.type) {
+        case "exists":
+        case "isFolder":
+        case "isFile":
+        case "getChildren":
+        case "getData":
+        case "getMetadata":
+        case "isLink":
+        case "getLinkTarget":
+            return true;
+        default:
+            return false;
+    }
+}
+
+/** Checks if a value is a request, i.e. if its type is known and its fields have the types of that request. The data of files is not checked. */
+export function isRequest(value: unknown): value is Request<unknown> {
+    if (!isObject(value))
+        return false;
+    if (value.type === "transaction")
+        return Array.isArray(value.operations) && value.operations.every(isOperation);
+    return isQuery(<Request<unknown>>value) ? typeof value.path === "string" : isOperation(value);
+}
+
+function isOperation(value: unknown): value is Operation<unknown> {
+    if (!isObject(value))
+        return false;
+    const isString = (key: string) => typeof value[key] === "string";
+    switch (value.type) {
+        case "copy":
+        case "move":
+            return isString("src") && isString("dst");
+        case "createFolder":
+        case "delete":
+            return isString("path");
+        // JSON has no undefined, so data that is undefined is missing
+        case "createFile":
+            return isString("path") && value.data !== undefined;
+        case "setData":
+            return isString("path") && value.data !== undefined && (value.revision === undefined || isString("revision"));
+        case "createLink":
+            return isString("path") && isString("target");
+        case "rename":
+            return isString("path") && isString("name");
+        case "setAttributes":
+            return isString("path") && isObject(value.attributes) && !Array.isArray(value.attributes);
+        case "setOrder":
+            return isString("path") && Array.isArray(value.children) && value.children.every(child => typeof child === "string");
+        default:
+            return false;
+    }
+}
+
+/** Serializes a message, including its terminating line feed. */
+export function stringifyMessage(message: ClientMessage<unknown> | ServerMessage): string {
+    // JSON does not contain unescaped line feeds
+    return JSON.stringify(message) + "\n";
+}
+
+/** Creates a function that receives chunks of data and calls the callback with each complete message. */
+export function createMessageReader(callback: (message: unknown) => void): (data: string) => void {
+    let buffer = "";
+    return data => {
+        const lines = (buffer + data).split("\n");
+        buffer = lines.pop() as string;
+        lines.forEach(line => {
+            let message: unknown;
+            try {
+                message = JSON.parse(line);
+            } catch {
+                return;
+            }
+            callback(message);
+        });
+    };
+}
+
+/** Gets the response to a request that could not be sent or answered, e.g. because the connection was lost. */
+export function getFailure(request: Request<unknown>, message: string): unknown {
+    switch (request.type) {
+        case "exists":
+        case "isFolder":
+        case "isFile":
+        case "isLink":
+            return false;
+        case "getChildren":
+        case "getData":
+        case "getMetadata":
+        case "getLinkTarget":
+            return undefined;
+        case "copy":
+        case "move":
+            return fail("EIO", request.src, message);
+        case "transaction":
+            return fail("EIO", "/", message);
+        default:
+            return fail("EIO", request.path, message);
+    }
+}
+
+/**
+    Executes a request on a file system and gets the response.
+    Requests that are not valid, e.g. because a field has the wrong type, fail with EINVAL, and errors thrown by the file system fail with EIO.
+*/
+export function handleRequest<T>(fs: FileSystem<T>, request: Request<T>): unknown {
+    if (!isRequest(request))
+        return fail("EINVAL", "/", "Invalid request");
+    try {
+        return execute(fs, request);
+    } catch (error) {
+        return fail("EIO", "/", String(error));
+    }
+}
+
+function execute<T>(fs: FileSystem<T>, request: Request<T>): unknown {
+    const resolve = (reference: string): string | undefined => resolveReference(fs, reference);
+    // maps the path of an error to a reference
+    const map = (result: Result): Result => result.ok ? result : fail(result.error.code, getReference(fs, result.error.path), result.error.message);
+
+    switch (request.type) {
+        case "exists":
+        case "isFolder":
+        case "isFile":
+        case "isLink": {
+            const path = resolve(request.path);
+            return path !== undefined && fs[request.type](path);
+        }
+        case "getChildren": {
+            const path = resolve(request.path);
+            const children = path === undefined ? undefined : fs.getChildren(path);
+            return children && children.map(child => getReference(fs, child));
+        }
+        case "getData":
+        case "getMetadata": {
+            const path = resolve(request.path);
+            return path === undefined ? undefined : fs[request.type](path);
+        }
+        case "getLinkTarget": {
+            const path = resolve(request.path);
+            const target = path === undefined ? undefined : fs.getLinkTarget(path);
+            return target === undefined ? undefined : getReference(fs, target);
+        }
+        case "transaction": {
+            let result = OK;
+            fs.transaction(() => request.operations.every(operation => (result = handleOperation(fs, operation, resolve)).ok));
+            return map(result);
+        }
+        default:
+            return map(handleOperation(fs, request, resolve));
+    }
+}
+
+function handleOperation<T>(fs: FileSystem<T>, operation: Operation<T>, resolve: (reference: string) => string | undefined): Result {
+    const invalid = (reference: unknown) => fail("EINVAL", String(reference), "Invalid reference");
+
+    switch (operation.type) {
+        case "copy":
+        case "move": {
+            const src = resolve(operation.src);
+            const dst = resolve(operation.dst);
+            if (src === undefined)
+                return invalid(operation.src);
+            if (dst === undefined)
+                return invalid(operation.dst);
+            return operation.type === "copy" ? fs.tryCopy(src, dst) : fs.tryMove(src, dst);
+        }
+        case "setOrder": {
+            const path = resolve(operation.path);
+            const children = operation.children.map(resolve);
+            if (path === undefined)
+                return invalid(operation.path);
+            if (children.indexOf(undefined) !== -1)
+                return invalid(operation.children[children.indexOf(undefined)]);
+            return fs.trySetOrder(path, <string[]>children);
+        }
+    }
+
+    const path = resolve(operation.path);
+    if (path === undefined)
+        return invalid(operation.path);
+    switch (operation.type) {
+        case "createFolder":
+            return fs.tryCreateFolder(path);
+        case "createFile":
+            return fs.tryCreateFile(path, operation.data);
+        case "delete":
+            return fs.tryDelete(path);
+        case "createLink": {
+            const target = resolve(operation.target);
+            return target === undefined ? invalid(operation.target) : fs.tryCreateLink(path, target);
+        }
+        case "rename":
+            return fs.tryRename(path, operation.name);
+        case "setData":
+            return fs.trySetData(path, operation.data, operation.revision);
+        case "setAttributes":
+            return fs.trySetAttributes(path, operation.attributes);
+    }
+}
+
+/** Maps the paths of an event of a file system to references. */
+export function mapToReferences(fs: FileSystem<unknown>, event: FileSystemEvent): FileSystemEvent {
+    return mapEvent(event, path => getReference(fs, path));
+}
@@ -0,0 +1,158 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { AsyncFileSystem, Callback, Operation } from "./AsyncFileSystem";
+import { Attributes, FileSystemEvent, FileSystemWatcher, Metadata, Result } from "./FileSystem";
+import { escapeName, parsePath } from "./PathString";
+import { Request } from "./Protocol";
+
+/**
+    Implements an asynchronous file system by sending each operation as a request of the protocol.
+    Subclasses implement how the requests are sent, e.g. to a server, and notify the watchers about changes.
+*/
+export abstract class ProtocolFileSystem<T> implements AsyncFileSystem<T> {
+    private readonly watchers: FileSystemWatcher[] = [];
+
+    /** Sends a request and calls the callback with the response. */
+    protected abstract send(request: Request<T>, callback: Callback<unknown>): void;
+
+    /** Notifies all watchers about a change. */
+    protected notify(event: FileSystemEvent): void {
+        this.watchers.forEach(watcher => watcher(event));
+    }
+
+    private query<S>(request: Request<T>, callback: Callback<S>): void {
+        this.send(request, response => callback(<S>response));
+    }
+
+    private execute(request: Request<T>, callback?: Callback<Result>): void {
+        this.send(request, response => callback && callback(<Result>response));
+    }
+
+
+    // GENERAL FILE SYSTEM METHODS
+
+    public getRoot(): string {
+        return "/";
+    }
+
+    public watch(watcher: FileSystemWatcher): () => void {
+        this.watchers.push(watcher);
+        return () => {
+            const idx = this.watchers.indexOf(watcher);
+            idx !== -1 && this.watchers.splice(idx, 1);
+        };
+    }
+
+
+    // PATHS
+
+    public getName(path: string): string {
+        const segments = parsePath(path).segments;
+        const last = segments[segments.length - 1];
+        return last && last.type === "child" ? last.name : "";
+    }
+
+    public getParent(path: string): string | undefined {
+        const segments = parsePath(path).segments;
+        if (segments.length === 0)
+            return undefined;
+        return "/" + segments.slice(0, -1).map(segment => segment.type === "child" ? escapeName(segment.name) : "..").join("/");
+    }
+
+    public getChild(parent: string, name: string): string {
+        return (parent === "/" ? "" : parent) + "/" + escapeName(name);
+    }
+
+
+    // FILE & FOLDER INFORMATION
+
+    public exists(path: string, callback: Callback<boolean>): void {
+        this.query({ type: "exists", path: path }, callback);
+    }
+
+    public isFolder(path: string, callback: Callback<boolean>): void {
+        this.query({ type: "isFolder", path: path }, callback);
+    }
+
+    public isFile(path: string, callback: Callback<boolean>): void {
+        this.query({ type: "isFile", path: path }, callback);
+    }
+
+    public getChildren(path: string, callback: Callback<string[] | undefined>): void {
+        this.query({ type: "getChildren", path: path }, callback);
+    }
+
+    public getData(path: string, callback: Callback<T | undefined>): void {
+        this.query({ type: "getData", path: path }, callback);
+    }
+
+    public getMetadata(path: string, callback: Callback<Metadata | undefined>): void {
+        this.query({ type: "getMetadata", path: path }, callback);
+    }
+
+    public isLink(path: string, callback: Callback<boolean>): void {
+        this.query({ type: "isLink", path: path }, callback);
+    }
+
+    public getLinkTarget(path: string, callback: Callback<string | undefined>): void {
+        this.query({ type: "getLinkTarget", path: path }, callback);
+    }
+
+
+    // FILE & FOLDER CREATION AND DELETION
+
+    public createFolder(path: string, callback?: Callback<Result>): void {
+        this.execute({ type: "createFolder", path: path }, callback);
+    }
+
+    public createFile(path: string, data: T, callback?: Callback<Result>): void {
+        this.execute({ type: "createFile", path: path, data: data }, callback);
+    }
+
+    public delete(path: string, callback?: Callback<Result>): void {
+        this.execute({ type: "delete", path: path }, callback);
+    }
+
+    public createLink(path: string, target: string, callback?: Callback<Result>): void {
+        this.execute({ type: "createLink", path: path, target: target }, callback);
+    }
+
+
+    // FILE & FOLDER MODIFICATION
+
+    public copy(src: string, dst: string, callback?: Callback<Result>): void {
+        this.execute({ type: "copy", src: src, dst: dst }, callback);
+    }
+
+    public move(src: string, dst: string, callback?: Callback<Result>): void {
+        this.execute({ type: "move", src: src, dst: dst }, callback);
+    }
+
+    public rename(path: string, name: string, callback?: Callback<Result>): void {
+        this.execute({ type: "rename", path: path, name: name }, callback);
+    }
+
+    public setData(path: string, data: T, revision?: string, callback?: Callback<Result>): void {
+        this.execute({ type: "setData", path: path, data: data, revision: revision }, callback);
+    }
+
+    public setAttributes(path: string, attributes: Attributes, callback?: Callback<Result>): void {
+        this.execute({ type: "setAttributes", path: path, attributes: attributes }, callback);
+    }
+
+    public setOrder(path: string, children: string[], callback?: Callback<Result>): void {
+        this.execute({ type: "setOrder", path: path, children: children }, callback);
+    }
+
+
+    // TRANSACTIONS
+
+    public transaction(operations: Operation<T>[], callback?: Callback<Result>): void {
+        this.execute({ type: "transaction", operations: operations }, callback);
+    }
+}
@@ -0,0 +1,229 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { Attributes, FileSystem, Result } from "./FileSystem";
+import { FileSystemWrapper } from "./FileSystemWrapper";
+import { fail, first, OK } from "./Result";
+
+/** Limits of a QuotaFileSystem. Limits that are not set are not enforced. */
+export interface Quota {
+    /** The maximum approximate size of the whole file system in characters when serialized. */
+    maxSize?: number;
+
+    /** The maximum number of files and folders, excluding the root folder. */
+    maxEntries?: number;
+
+    /** The maximum depth of files and folders, where the children of the root folder have depth 1. */
+    maxDepth?: number;
+
+    /** The maximum length of the names of files and folders. */
+    maxNameLength?: number;
+}
+
+/** The size and number of entries of a file system. */
+export interface Usage {
+    /** The approximate size in characters when serialized. */
+    size: number;
+
+    /** The number of files and folders, excluding the root folder. */
+    entries: number;
+}
+
+// approximate size of a serialized element without its content or children
+const ELEMENT_SIZE = JSON.stringify({ type: "folder", files: {}, created: Date.now(), modified: Date.now() }).length;
+
+function sizeOf(value: unknown): number {
+    const json = JSON.stringify(value);
+    return json === undefined ? 0 : json.length;
+}
+
+/**
+    Implements a file system that enforces limits on another file system.
+    All methods that would exceed a limit fail.
+    The size of a file or folder is only estimated, so the limits are not exact.
+*/
+export class QuotaFileSystem<T> extends FileSystemWrapper<T> {
+    private readonly quota: Quota;
+    private usage: Usage | undefined = undefined;
+
+    /** Constructs a new QuotaFileSystem that enforces the given limits on a file system. */
+    public constructor(fs: FileSystem<T>, quota: Quota) {
+        super(fs);
+        this.quota = quota;
+        // the usage is recalculated lazily after each change
+        // (changes inside of a transaction are only reported on commit)
+        fs.watch(() => this.usage = undefined);
+    }
+
+    // QUOTA METHODS
+
+    /** Gets the current usage of the file system. */
+    public getUsage(): Usage {
+        if (!this.usage) {
+            const root = this.getRoot();
+            const metadata = this.getMetadata(root);
+            this.usage = {
+                size: metadata ? metadata.size : 0,
+                entries: this.getStatistics(root).entries - 1,
+            };
+        }
+        return this.usage;
+    }
+
+    /** Gets the remaining budget of the file system, which is Infinity for limits that are not set. */
+    public getRemaining(): Usage {
+        const usage = this.getUsage();
+        return {
+            size: this.quota.maxSize === undefined ? Infinity : Math.max(0, this.quota.maxSize - usage.size),
+            entries: this.quota.maxEntries === undefined ? Infinity : Math.max(0, this.quota.maxEntries - usage.entries),
+        };
+    }
+
+    /** Checks if a file with given data can be created at a path without exceeding a limit. */
+    public canCreateFile(path: string, data: T): boolean {
+        return this.checkCreation(path, ELEMENT_SIZE + sizeOf(data)).ok;
+    }
+
+    /** Checks if the data of the file at a path can be set without exceeding a limit. */
+    public canSetData(path: string, data: T): boolean {
+        return this.checkSpace(path, sizeOf(data) - sizeOf(this.getData(path)), 0).ok;
+    }
+
+    // HELPER METHODS
+
+    private changed(result: Result): Result {
+        if (result.ok)
+            this.usage = undefined;
+        return result;
+    }
+
+    private checkSpace(path: string, size: number, entries: number): Result {
+        const remaining = this.getRemaining();
+        if (size > remaining.size)
+            return fail("ENOSPC", path, "Maximum size exceeded");
+        if (entries > remaining.entries)
+            return fail("ENOSPC", path, "Maximum number of files and folders exceeded");
+        return OK;
+    }
+
+    private checkName(path: string, name: string = this.getName(path)): Result {
+        if (this.quota.maxNameLength !== undefined && name.length > this.quota.maxNameLength)
+            return fail("ENAMETOOLONG", path);
+        return OK;
+    }
+
+    private checkDepth(path: string, height: number): Result {
+        let depth = 0;
+        for (let parent = this.getParent(path); parent !== undefined; parent = this.getParent(parent))
+            depth++;
+        if (this.quota.maxDepth !== undefined && depth + height > this.quota.maxDepth)
+            return fail("ENOSPC", path, "Maximum depth exceeded");
+        return OK;
+    }
+
+    // number of entries and height of a file or folder, including itself
+    // (the children of a link belong to its target, so they are not counted)
+    private getStatistics(path: string): { entries: number, height: number } {
+        const children = this.isLink(path) ? [] : this.getChildren(path) || [];
+        return children.map(child => this.getStatistics(child)).reduce((statistics, child) => ({
+            entries: statistics.entries + child.entries,
+            height: Math.max(statistics.height, child.height + 1),
+        }), { entries: 1, height: 0 });
+    }
+
+    // checks if a file or folder of a given size can be created, including missing parent folders
+    private checkCreation(path: string, size: number): Result {
+        let entries = 1;
+        for (let parent = this.getParent(path); parent !== undefined && !this.exists(parent); parent = this.getParent(parent))
+            entries++;
+        return first(
+            () => this.checkName(path),
+            () => this.checkDepth(path, 0),
+            () => this.checkSpace(path, size + (entries - 1) * ELEMENT_SIZE, entries),
+        );
+    }
+
+
+    // FILE & FOLDER CREATION AND DELETION
+
+    public tryCreateFolder(path: string): Result {
+        return first(
+            () => this.checkCreation(path, ELEMENT_SIZE),
+            () => this.changed(super.tryCreateFolder(path)),
+        );
+    }
+
+    public tryCreateFile(path: string, data: T): Result {
+        return first(
+            () => this.checkCreation(path, ELEMENT_SIZE + sizeOf(data)),
+            () => this.changed(super.tryCreateFile(path, data)),
+        );
+    }
+
+    public tryDelete(path: string): Result {
+        return this.changed(super.tryDelete(path));
+    }
+
+    public tryCreateLink(path: string, target: string): Result {
+        return first(
+            () => this.checkCreation(path, ELEMENT_SIZE + sizeOf(target)),
+            () => this.changed(super.tryCreateLink(path, target)),
+        );
+    }
+
+
+    // FILE & FOLDER MODIFICATION
+
+    public tryCopy(src: string, dst: string): Result {
+        const metadata = this.getMetadata(src);
+        if (!metadata)
+            return fail("ENOENT", src);
+        const statistics = this.getStatistics(src);
+        return first(
+            () => this.checkName(dst),
+            () => this.checkDepth(dst, statistics.height),
+            () => this.checkSpace(dst, metadata.size, statistics.entries),
+            () => this.changed(super.tryCopy(src, dst)),
+        );
+    }
+
+    public tryMove(src: string, dst: string): Result {
+        return first(
+            () => this.checkName(dst),
+            () => this.checkDepth(dst, this.getStatistics(src).height),
+            () => this.changed(super.tryMove(src, dst)),
+        );
+    }
+
+    public tryRename(path: string, name: string): Result {
+        return first(
+            () => this.checkName(path, name),
+            () => this.changed(super.tryRename(path, name)),
+        );
+    }
+
+    public trySetData(path: string, data: T, revision?: string): Result {
+        return first(
+            () => this.checkSpace(path, sizeOf(data) - sizeOf(this.getData(path)), 0),
+            () => this.changed(super.trySetData(path, data, revision)),
+        );
+    }
+
+    public trySetAttributes(path: string, attributes: Attributes): Result {
+        const metadata = this.getMetadata(path);
+        if (!metadata)
+            return fail("ENOENT", path);
+        return first(
+            () => this.checkSpace(path, sizeOf(attributes) - sizeOf(metadata.attributes), 0),
+            () => this.changed(super.trySetAttributes(path, attributes)),
+        );
+    }
+
+    public trySetOrder(path: string, children: string[]): Result {
+        return this.changed(super.trySetOrder(path, children));
+    }
+}
@@ -0,0 +1,79 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { Attributes, Metadata, Result } from "./FileSystem";
+import { FileSystemWrapper } from "./FileSystemWrapper";
+import { fail } from "./Result";
+
+function readOnly(path: string): Result {
+    return fail("EACCES", path, "File system is read-only");
+}
+
+/**
+    Implements a read-only view of another file system.
+    All methods that would modify the file system fail, and reading does not modify it either,
+    e.g. upgraded data is not written back. If the root folder does not exist, then it is an empty folder in the view.
+*/
+export class ReadOnlyFileSystem<T> extends FileSystemWrapper<T> {
+
+    // the root folder is created when it is written for the first time, so it might not exist yet
+    private isVirtualRoot(path: string): boolean {
+        return this.fs.getParent(path) === undefined && !this.fs.exists(path);
+    }
+
+
+    // GENERAL FILE SYSTEM METHODS
+
+    public getRoot(): string { return this.fs.readOnly(() => this.fs.getRoot()); }
+
+
+    // FILE & FOLDER INFORMATION
+
+    public exists(path: string): boolean { return this.isVirtualRoot(path) || this.fs.exists(path); }
+
+    public isFolder(path: string): boolean { return this.isVirtualRoot(path) || this.fs.isFolder(path); }
+
+    public getChildren(path: string): string[] | undefined { return this.isVirtualRoot(path) ? [] : this.fs.getChildren(path); }
+
+    public getData(path: string): T | undefined { return this.fs.readOnly(() => this.fs.getData(path)); }
+
+    public getMetadata(path: string): Metadata | undefined {
+        return this.isVirtualRoot(path) ? {
+            created: undefined,
+            modified: undefined,
+            size: 0,
+            attributes: {},
+            revision: "",
+        } : this.fs.getMetadata(path);
+    }
+
+
+    // FILE & FOLDER CREATION AND DELETION
+
+    public tryCreateFolder(path: string): Result { return readOnly(path); }
+
+    public tryCreateFile(path: string, _data: T): Result { return readOnly(path); }
+
+    public tryDelete(path: string): Result { return readOnly(path); }
+
+    public tryCreateLink(path: string, _target: string): Result { return readOnly(path); }
+
+
+    // FILE & FOLDER MODIFICATION
+
+    public tryCopy(_src: string, dst: string): Result { return readOnly(dst); }
+
+    public tryMove(src: string, _dst: string): Result { return readOnly(src); }
+
+    public tryRename(path: string, _name: string): Result { return readOnly(path); }
+
+    public trySetData(path: string, _data: T, _revision?: string): Result { return readOnly(path); }
+
+    public trySetAttributes(path: string, _attributes: Attributes): Result { return readOnly(path); }
+
+    public trySetOrder(path: string, _children: string[]): Result { return readOnly(path); }
+}
@@ -0,0 +1,44 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { FileSystemErrorCode, Result } from "./FileSystem";
+
+const messages: { [code in FileSystemErrorCode]: string } = {
+    ENOENT: "No such file or folder",
+    EEXIST: "File or folder already exists",
+    ENOTDIR: "Not a folder",
+    EISDIR: "Is a folder",
+    EINVAL: "Invalid operation or data",
+    EACCES: "Operation not permitted",
+    ENOSPC: "Limit of file system exceeded",
+    ENAMETOOLONG: "Name too long",
+    ESTALE: "File was changed since it was read",
+    EIO: "Operation failed",
+};
+
+/** The result of a successful operation. */
+export const OK: Result = { ok: true };
+
+/** Creates the result of a failed operation. */
+export function fail(code: FileSystemErrorCode, path: string, message: string = messages[code]): Result {
+    return {
+        ok: false,
+        error: {
+            code: code,
+            path: path,
+            message: message,
+        },
+    };
+}
+
+/** Evaluates results one after another and returns the first failed one, or the last one if none failed. */
+export function first(...results: (() => Result)[]): Result {
+    let result = OK;
+    for (let idx = 0; idx < results.length && result.ok; idx++)
+        result = results[idx]();
+    return result;
+}
@@ -0,0 +1,31 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+/** A function that upgrades file data from one schema version to the next one. */
+export type Migration = (data: unknown) => unknown;
+
+/**
+    Describes the current schema version of the file data and how to upgrade
+    file data from older versions.
+    Files that were created without a schema have version 0.
+*/
+export interface Schema {
+    /** The current schema version. New files are created with this version. */
+    version: number;
+
+    /**
+        The migrations, indexed by the version they upgrade from,
+        i.e. migrations[v] upgrades data from version v to version v + 1.
+    */
+    migrations: { [version: number]: Migration };
+
+    /**
+        If true, then data that was upgraded when it was read is written back,
+        such that it does not have to be upgraded again. Defaults to false.
+    */
+    writeBack?: boolean;
+}
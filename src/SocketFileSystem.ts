@@ -0,0 +1,105 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { Callback } from "./AsyncFileSystem";
+import { FileSystemEvent } from "./FileSystem";
+import { createMessageReader, getFailure, Request, stringifyMessage } from "./Protocol";
+import { ProtocolFileSystem } from "./ProtocolFileSystem";
+
+/** Options for a SocketFileSystem. */
+export interface SocketFileSystemOptions {
+    /** The port of the server. */
+    port: number;
+
+    /** The host of the server. By default, it is "localhost". */
+    host?: string;
+
+    /**
+        Creates the socket to connect to the server. By default, it is created by network.createSocket.
+        Can be replaced, e.g. to connect to the server outside of the game with a socket of Node.js.
+    */
+    createSocket?: () => Socket;
+}
+
+/**
+    Implements an asynchronous file system that is stored on a server and accessed via a TCP socket.
+    The server executes the requests on its file system and sends the changes to all clients,
+    see the reference server in the server folder of this project.
+    Note that OpenRCT2 only allows plugins to connect to servers on the local machine.
+*/
+export class SocketFileSystem<T> extends ProtocolFileSystem<T> {
+    private readonly socket: Socket;
+
+    private connected = false;
+    private closed = false;
+    // messages that are sent when the connection is established
+    private readonly queue: string[] = [];
+    private readonly pending: { [id: number]: { request: Request<T>, callback: Callback<unknown> } } = {};
+    private nextId = 0;
+
+    /** Constructs a new SocketFileSystem and connects to the server. */
+    public constructor(options: SocketFileSystemOptions) {
+        super();
+        this.socket = options.createSocket ? options.createSocket() : network.createSocket();
+        let error = "Connection closed";
+        this.socket.on("data", createMessageReader(message => this.receive(message)));
+        this.socket.on("error", message => error = String(message));
+        this.socket.on("close", () => this.disconnect(error));
+        this.socket.connect(options.port, options.host || "localhost", () => {
+            this.connected = true;
+            this.queue.forEach(message => this.socket.write(message));
+            this.queue.length = 0;
+        });
+    }
+
+    /** Checks if the connection to the server is established. */
+    public isConnected(): boolean {
+        return this.connected && !this.closed;
+    }
+
+    /** Closes the connection to the server. All pending and following operations fail. */
+    public close(): void {
+        if (this.closed)
+            return;
+        this.socket.end();
+        this.disconnect("Connection closed");
+    }
+
+    protected send(request: Request<T>, callback: Callback<unknown>): void {
+        if (this.closed)
+            return callback(getFailure(request, "Connection closed"));
+        const id = this.nextId++;
+        this.pending[id] = { request: request, callback: callback };
+        const message = stringifyMessage({ id: id, request: request });
+        this.connected ? this.socket.write(message) : this.queue.push(message);
+    }
+
+    private receive(message: unknown): void {
+        if (typeof message !== "object" || message === null)
+            return;
+        const { id, response, event } = <{ id?: number, response?: unknown, event?: FileSystemEvent }>message;
+        if (event)
+            return this.notify(event);
+        const pending = id === undefined ? undefined : this.pending[id];
+        if (pending && id !== undefined) {
+            delete this.pending[id];
+            pending.callback(response);
+        }
+    }
+
+    // fails all pending operations
+    private disconnect(message: string): void {
+        if (this.closed)
+            return;
+        this.closed = true;
+        for (const id in this.pending) {
+            const pending = this.pending[id];
+            delete this.pending[id];
+            pending.callback(getFailure(pending.request, message));
+        }
+    }
+}
@@ -0,0 +1,102 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { clone, getValue, isObject, setValue, StorageObject } from "./Objects";
+
+function createRevision(): string {
+    return Date.now().toString(36) + Math.random().toString(36).slice(2);
+}
+
+/** Access to the underlying key-value storage. */
+export interface Storage {
+    get<S>(key: string): S | undefined;
+    set<S>(key: string, value: S): void;
+}
+
+/**
+    An in-memory mirror of all values of a key-value storage under a namespace.
+    The storage is read once and then only written through. Each write changes a revision
+    token, which is stored as the property "revision" of the value of the namespace, if it is an object,
+    so the mirror is reloaded if another instance changed the storage.
+    The values are returned by reference, so they must not be modified.
+*/
+export class StorageCache {
+    private readonly namespace: string;
+    private readonly storage: Storage;
+    private readonly revisionKey: string;
+
+    private loaded = false;
+    private revision: string | undefined = undefined;
+    private value: unknown = undefined;
+
+    public constructor(namespace: string, storage: Storage) {
+        this.namespace = namespace;
+        this.storage = storage;
+        this.revisionKey = namespace + ".revision";
+    }
+
+    /** Discards the mirror, such that it is reloaded on the next access. */
+    public invalidate(): void {
+        this.loaded = false;
+        this.value = undefined;
+    }
+
+    /** Gets the value for a key, which must be the namespace or a key under it. */
+    public get<S>(key: string): S | undefined {
+        this.validate();
+        return <S | undefined>getValue(this.value, this.getNames(key));
+    }
+
+    /** Updates the mirror after a value was written to the storage, and changes the revision. */
+    public set<S>(key: string, value: S): void {
+        this.validate();
+        const names = this.getNames(key);
+        if (names.length === 0)
+            this.value = clone(value);
+        else {
+            if (!isObject(this.value)) {
+                if (value === undefined)
+                    return;
+                this.value = {};
+            }
+            setValue(<StorageObject>this.value, names, clone(value));
+        }
+        this.revision = createRevision();
+        this.storeRevision();
+    }
+
+    // reloads the mirror if it was not loaded yet or if the storage was changed by someone else
+    private validate(): void {
+        const revision = this.storage.get<string>(this.revisionKey);
+        if (this.loaded && revision !== undefined && revision === this.revision)
+            return;
+
+        // the storage might return the stored object itself
+        this.value = clone(this.storage.get(this.namespace));
+        this.loaded = true;
+        this.revision = revision;
+        if (this.revision === undefined) {
+            // without a revision, changes by someone else could not be detected
+            this.revision = createRevision();
+            this.storeRevision();
+        }
+    }
+
+    // the value of the namespace is not created for the revision, without it the mirror is reloaded on each access
+    private storeRevision(): void {
+        if (!isObject(this.value))
+            return;
+        this.value.revision = this.revision;
+        this.storage.set(this.revisionKey, this.revision);
+    }
+
+    private getNames(key: string): string[] {
+        if (key !== this.namespace && key.indexOf(this.namespace + ".") !== 0)
+            throw new Error(`Key ${key} does not belong to namespace ${this.namespace}.`);
+        return key === this.namespace ? [] : key.slice(this.namespace.length + 1).split(".");
+    }
+}
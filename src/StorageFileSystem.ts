@@ -0,0 +1,1108 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { Codec, CompressionCodec } from "./Codec";
+import { Attributes, FileSystem, FileSystemEvent, FileSystemWatcher, Metadata, Result } from "./FileSystem";
+import { getCommonAncestor } from "./Events";
+import { hash } from "./Hash";
+import { clone } from "./Objects";
+import { fail, OK } from "./Result";
+import { Schema } from "./Schema";
+import { StorageCache } from "./StorageCache";
+import { Validation } from "./Validation";
+
+// name encoding
+// forbidden chars: . (dot), / (forward slash, keep for compatibility)
+// escape char: \ (backslash)
+
+function escape(char: string): string {
+    return "\\" + char;
+}
+
+function replaceAll(text: string, search: string, replacement: string): string {
+    return text.split(search).join(replacement);
+}
+
+function encode(text: string): string {
+    if (text === "")
+        return escape("");
+    text = replaceAll(text, escape(""), escape(escape("")));
+    text = replaceAll(text, ".", escape("d"));
+    text = replaceAll(text, "/", escape("s"));
+    // names like "constructor" must not collide with the properties of objects
+    return text in {} ? escape("p") + text : text;
+}
+
+function decode(text: string): string {
+    if (text === escape(""))
+        return "";
+    // the escape sequences are replaced from left to right, such that e.g. "\\d" is decoded to "\d"
+    return text.replace(/\\(.)/g, (_, char: string) => char === "d" ? "." : char === "s" ? "/" : char === "p" ? "" : char);
+}
+
+interface StorageMetadata {
+    created?: number;
+    modified?: number;
+    attributes?: Attributes;
+}
+
+interface StorageFolder<T> extends StorageMetadata {
+    type: "folder";
+    files: { [key: string]: StorageElement<T> };
+    // keys of the files in their persisted order, files which are not contained are ordered last
+    order?: string[];
+    // entries of the trash by id, only in the root folder, which must be kept when the root folder is rewritten
+    trash?: { [id: string]: StorageTrashEntry<T> };
+    // revision token of the caches, only in the root folder, see StorageCache
+    revision?: string;
+}
+
+interface StorageFile<T> extends StorageMetadata {
+    type: "file";
+    // encoded by the codecs with the given identifiers (separated by "+"), if any
+    content: T;
+    codec?: string;
+    version?: number;
+    // revision of the file before its data was migrated, which is kept since a migration is not a modification
+    revision?: string;
+}
+
+interface StorageLink extends StorageMetadata {
+    type: "link";
+    // path of the file or folder to which the link points
+    target: string;
+}
+
+type StorageElement<T> = StorageFolder<T> | StorageFile<T> | StorageLink;
+
+// gets the revision of an element, which is the hash of the element unless its data was migrated
+function getRevision(element: StorageElement<unknown>): string {
+    return element.type === "file" && element.revision || hash(JSON.stringify(element));
+}
+
+// gets the keys of the files of a folder in their persisted order
+function getFileKeys(folder: StorageFolder<unknown>): string[] {
+    const order = (folder.order || []).filter(key => folder.files[key] !== undefined);
+    for (const key in folder.files)
+        if (order.indexOf(key) === -1)
+            order.push(key);
+    return order;
+}
+
+interface StorageTrashEntry<T> {
+    path: string;
+    deleted: number;
+    element: StorageElement<T>;
+}
+
+interface JournalEntry {
+    key: string;
+    value: unknown;
+}
+
+interface SnapshotEntry {
+    type: StorageElement<unknown>["type"];
+    // hash of the content, codec and version of a file, or of the target of a link
+    data: string;
+    attributes: string;
+    // paths of the children of a folder in their order
+    children: string[];
+}
+
+type Snapshot = { [path: string]: SnapshotEntry };
+
+/** An entry in the trash of a StorageFileSystem. */
+export interface TrashEntry {
+    /** The identifier of the entry. */
+    id: string;
+
+    /** The original path of the deleted file or folder. */
+    path: string;
+
+    /** The name of the deleted file or folder. */
+    name: string;
+
+    /** The time of deletion in milliseconds since the epoch. */
+    deleted: number;
+
+    /** Checks if the deleted entry is a folder. */
+    isFolder: boolean;
+}
+
+/** Options to configure a StorageFileSystem. */
+export interface StorageFileSystemOptions<T> {
+    /** The schema of the file data. If set, file data is versioned and upgraded when read. */
+    schema?: Schema;
+
+    /** The runtime validation of the file data. If set, file data is validated when written and read. */
+    validation?: Validation<T>;
+
+    /** If true, then deleted files and folders are moved to the trash instead, from which they can be restored. */
+    trash?: boolean;
+
+    /**
+        If true, then the storage is read only once and then mirrored in memory, which makes reading much faster.
+        Changes to the storage by other instances with the same namespace and enabled cache are detected.
+        After other changes to the storage, call invalidateCache.
+    */
+    cache?: boolean;
+
+    /**
+        The codec that encodes the file data when written, e.g. a CompressionCodec.
+        If an array is given, then the codecs are applied in order.
+        Files are always decoded by the codecs that were used to write them.
+    */
+    codec?: Codec | Codec[];
+
+    /**
+        Further codecs, which are only used to decode files that were written with them.
+        The CompressionCodec is always known.
+    */
+    codecs?: Codec[];
+}
+
+/**
+    Implements a file system that stores the data in a key-value storage
+    with JS dot notation keys, e.g. the shared plugin storage.
+    Subclasses only need to provide access to the underlying storage.
+*/
+export abstract class StorageFileSystem<T> implements FileSystem<T> {
+    private readonly namespace: string;
+    private readonly schema: Schema | undefined;
+    private readonly validation: Validation<T> | undefined;
+    private readonly trash: boolean;
+    private readonly cache: StorageCache | undefined;
+    private readonly codec: Codec[];
+    private readonly codecs: { [id: string]: Codec } = {};
+
+    /**
+        Constructs a new StorageFileSystem with a given namespace.
+        Each file system is identified by its namespace, which must be a valid
+        identifier using JS dot notation, e.g. "my-plugin.data" or
+        "my-plugin.data.saves", but not just "my-plugin".
+        The namespace is the key in the storage under which the file system
+        will be saved.
+    */
+    public constructor(namespace: string, options: StorageFileSystemOptions<T> = {}) {
+        this.namespace = namespace;
+        this.schema = options.schema;
+        this.validation = options.validation;
+        this.trash = options.trash || false;
+        this.cache = options.cache ? new StorageCache(namespace, {
+            get: key => this.get(key),
+            set: (key, value) => this.set(key, value),
+        }) : undefined;
+        this.codec = options.codec === undefined ? [] : ([] as Codec[]).concat(options.codec);
+        ([new CompressionCodec()] as Codec[]).concat(options.codecs || [], this.codec).forEach(codec => this.codecs[codec.id] = codec);
+    }
+
+    // STORAGE ACCESS
+
+    /** Checks if the storage contains a value for a key. */
+    protected abstract has(key: string): boolean;
+
+    /** Gets the value for a key from the storage. */
+    protected abstract get<S>(key: string): S | undefined;
+
+    /** Sets the value for a key in the storage, or removes it if the value is undefined. */
+    protected abstract set<S>(key: string, value: S): void;
+
+    // CONFIG HELPER METHODS
+
+    private getKey(path: string): string {
+        return this.namespace + path.replace(/\./g, ".files.");
+    }
+
+    private getOrderKey(path: string): string {
+        return this.getKey(path) + ".order";
+    }
+
+    private getElement<S extends StorageElement<T>>(path: string): S | undefined {
+        return this.read<S>(this.getKey(path));
+    }
+
+    private setElement<S extends StorageElement<T> | undefined>(path: string, element: S): void {
+        this.write(this.getKey(path), element);
+    }
+
+    // follows the links at a path to a file or folder, returns undefined if a link is broken or if links form a cycle
+    private getTarget(path: string): { path: string, element: StorageFolder<T> | StorageFile<T> } | undefined {
+        const visited = [] as string[];
+        for (let element = this.getElement<StorageElement<T>>(path); element; element = this.getElement<StorageElement<T>>(path)) {
+            if (element.type !== "link")
+                return { path: path, element: element };
+            if (visited.indexOf(path) !== -1)
+                return undefined;
+            visited.push(path);
+            path = element.target;
+        }
+        return undefined;
+    }
+
+    // all reads go through these methods, such that they can be cached
+    private contains(key: string): boolean {
+        return this.cache ? this.cache.get(key) !== undefined : this.has(key);
+    }
+
+    private read<S>(key: string): S | undefined {
+        return this.cache ? this.cache.get<S>(key) : this.get<S>(key);
+    }
+
+    // all writes go through this method, such that they can be rolled back
+    private write<S>(key: string, value: S): void {
+        if (this.journal)
+            this.journal.push({ key: key, value: this.read(key) });
+        this.store<S>(key, value);
+    }
+
+    private store<S>(key: string, value: S): void {
+        // the storage might keep the value itself, which must not be modified by the caller afterwards
+        this.set<S>(key, clone(value));
+        this.cache && this.cache.set<S>(key, value);
+    }
+
+    private notify(event: FileSystemEvent): void {
+        if (this.journal)
+            this.pending.push(event);
+        else {
+            this.snapshot && this.updateSnapshot(event);
+            this.watchers.forEach(watcher => watcher(event));
+        }
+    }
+
+    // GENERAL FILE SYSTEM METHODS
+
+    public getRoot(): string {
+        this.reading || this.createFolder("");
+        return "";
+    }
+
+    // if true, then reading does not write
+    private reading = false;
+    public readOnly<S>(read: () => S): S {
+        const reading = this.reading;
+        this.reading = true;
+        try {
+            return read();
+        } finally {
+            this.reading = reading;
+        }
+    }
+
+    private readonly watchers: FileSystemWatcher[] = [];
+    public watch(watcher: FileSystemWatcher): () => void {
+        this.watchers.push(watcher);
+        return () => {
+            const idx = this.watchers.indexOf(watcher);
+            if (idx !== -1)
+                this.watchers.splice(idx, 1);
+        };
+    }
+
+
+    // FILE & FOLDER INFORMATION
+
+    public getName(path: string): string {
+        return decode(path.slice(path.lastIndexOf(".") + 1));
+    }
+
+    public getParent(path: string): string | undefined {
+        const idx = path.lastIndexOf(".");
+        return idx < 0 ? undefined : path.slice(0, idx);
+    }
+
+    public getChild(parent: string, name: string): string {
+        const key = encode(name);
+        // names like "constructor" were stored with their raw key before they were prefixed, which is kept if it exists
+        if (key.indexOf(escape("p")) === 0) {
+            const legacy = key.slice(escape("p").length);
+            const element = this.getElement<StorageElement<T>>(parent);
+            if (element && element.type === "folder" && Object.prototype.hasOwnProperty.call(element.files, legacy))
+                return parent + "." + legacy;
+        }
+        return parent + "." + key;
+    }
+
+    public exists(path: string): boolean {
+        return this.contains(this.getKey(path));
+    };
+
+    public isFolder(path: string): boolean {
+        const target = this.getTarget(path);
+        return target !== undefined && target.element.type === "folder";
+    };
+
+    public isFile(path: string): boolean {
+        const target = this.getTarget(path);
+        return target !== undefined && target.element.type === "file";
+    };
+
+    public getChildren(path: string): string[] | undefined {
+        const target = this.getTarget(path);
+        if (!target || target.element.type !== "folder")
+            return undefined;
+
+        // the children of a link are the children of its target
+        return getFileKeys(target.element).map(key => target.path + "." + key);
+    };
+
+    public getData(path: string): T | undefined {
+        const target = this.getTarget(path);
+        if (!target || target.element.type !== "file")
+            return undefined;
+
+        // the storage or the cache might return the stored data itself, which must neither be modified by the migrations nor by the caller
+        const element = clone(target.element);
+
+        const decoded = this.decode(element);
+        const upgraded = decoded && this.upgrade(decoded);
+        if (upgraded && upgraded !== decoded && this.schema && this.schema.writeBack && !this.reading) {
+            this.setElement<StorageFile<T>>(target.path, this.encodeMigrated(upgraded, target.element));
+            // the write back is not reported, but it must not be detected as external change
+            this.snapshot && !this.journal && this.updateSnapshot({ type: "dataChanged", path: target.path });
+        }
+        if (upgraded && !this.isValid(target.path, upgraded.content)) {
+            this.reading || this.handleInvalid(target.path);
+            return undefined;
+        }
+        return upgraded && upgraded.content;
+    };
+
+    public getMetadata(path: string): Metadata | undefined {
+        const element = this.getElement<StorageElement<T>>(path);
+        if (!element)
+            return undefined;
+
+        const json = JSON.stringify(element);
+        // setData acts on the target of a link, so the revision of a link is the revision of its target
+        const target = element.type === "link" ? this.getTarget(path) : undefined;
+        return {
+            created: element.created,
+            modified: element.modified,
+            size: json.length,
+            attributes: clone(element.attributes) || {},
+            revision: getRevision(target ? target.element : element),
+        };
+    }
+
+    public isLink(path: string): boolean {
+        const element = this.getElement<StorageElement<T>>(path);
+        return element !== undefined && element.type === "link";
+    }
+
+    public getLinkTarget(path: string): string | undefined {
+        const element = this.getElement<StorageElement<T>>(path);
+        return element && element.type === "link" ? element.target : undefined;
+    }
+
+
+    // FILE & FOLDER CREATION AND DELETION
+
+    public createFolder(path: string): boolean { return this.tryCreateFolder(path).ok; }
+
+    public createFile(path: string, content: T): boolean { return this.tryCreateFile(path, content).ok; }
+
+    public delete(path: string): boolean { return this.tryDelete(path).ok; }
+
+    public createLink(path: string, target: string): boolean { return this.tryCreateLink(path, target).ok; }
+
+    public tryCreateFolder(path: string): Result {
+        const result = this.checkCreation(path);
+        if (!result.ok)
+            return result;
+
+        const now = Date.now();
+        this.setElement<StorageFolder<T>>(path, {
+            type: "folder",
+            files: {},
+            created: now,
+            modified: now,
+        });
+        this.notify({ type: "created", path: path });
+        return OK;
+    };
+
+    public tryCreateFile(path: string, content: T): Result {
+        const result = this.checkCreation(path);
+        if (!result.ok)
+            return result;
+        if (!this.isValid(path, content))
+            return fail("EINVAL", path, "Invalid data");
+
+        const now = Date.now();
+        this.setElement<StorageFile<T>>(path, this.encode({
+            type: "file",
+            content: content,
+            version: this.schema && this.schema.version,
+            created: now,
+            modified: now,
+        }));
+        this.notify({ type: "created", path: path });
+        return OK;
+    };
+
+    public tryDelete(path: string): Result {
+        const element = this.getElement<StorageElement<T>>(path);
+        if (!element)
+            return fail("ENOENT", path);
+
+        // the trash is stored in the root folder, so the root folder is always deleted permanently
+        if (this.trash && this.getParent(path) !== undefined)
+            this.write<StorageTrashEntry<T>>(this.getTrashKey(this.createTrashId()), {
+                path: path,
+                deleted: Date.now(),
+                element: element,
+            });
+        this.setElement(path, undefined);
+        this.updateOrder(path, undefined);
+        this.notify({ type: "deleted", path: path });
+        return OK;
+    };
+
+    public tryCreateLink(path: string, target: string): Result {
+        const result = this.checkCreation(path);
+        if (!result.ok)
+            return result;
+
+        const now = Date.now();
+        this.setElement<StorageLink>(path, {
+            type: "link",
+            target: target,
+            created: now,
+            modified: now,
+        });
+        this.notify({ type: "created", path: path });
+        return OK;
+    }
+
+
+    // FILE & FOLDER MODIFICATION
+
+    public copy(src: string, dst: string): boolean { return this.tryCopy(src, dst).ok; }
+
+    public move(src: string, dst: string): boolean { return this.tryMove(src, dst).ok; }
+
+    public rename(path: string, name: string): boolean { return this.tryRename(path, name).ok; }
+
+    public setData(path: string, content: T, revision?: string): boolean { return this.trySetData(path, content, revision).ok; }
+
+    public setAttributes(path: string, attributes: Attributes): boolean { return this.trySetAttributes(path, attributes).ok; }
+
+    public setOrder(path: string, children: string[]): boolean { return this.trySetOrder(path, children).ok; }
+
+    public tryCopy(src: string, dst: string): Result {
+        const element = this.getElement<StorageElement<T>>(src);
+        if (!element)
+            return fail("ENOENT", src);
+        const result = this.checkCreation(dst);
+        if (!result.ok)
+            return result;
+
+        this.setElement(dst, this.deepCopy(element));
+        this.notify({ type: "copied", path: dst, sourcePath: src });
+        return OK;
+    };
+
+    public tryMove(src: string, dst: string): Result {
+        return this.transfer(src, dst, "moved");
+    };
+
+    public tryRename(path: string, name: string): Result {
+        const parent = this.getParent(path);
+        if (parent === undefined)
+            return fail("EINVAL", path, "Cannot rename the root folder");
+        return this.transfer(path, this.getChild(parent, name), "renamed");
+    }
+
+    public trySetData(path: string, content: T, revision?: string): Result {
+        const target = this.getTarget(path);
+        if (!target)
+            return fail("ENOENT", path);
+        const file = target.element;
+        if (file.type !== "file")
+            return fail("EISDIR", path);
+        // the revision of a link is the revision of its target, like in getMetadata
+        if (revision !== undefined && revision !== getRevision(file))
+            return fail("ESTALE", path);
+        if (!this.isValid(target.path, content))
+            return fail("EINVAL", path, "Invalid data");
+
+        this.setElement<StorageFile<T>>(target.path, this.encode({
+            type: "file",
+            content: content,
+            version: this.schema && this.schema.version,
+            created: file.created,
+            modified: Date.now(),
+            attributes: file.attributes,
+        }));
+        this.notify({ type: "dataChanged", path: target.path });
+        return OK;
+    };
+
+    public trySetAttributes(path: string, attributes: Attributes): Result {
+        const element = this.getElement<StorageElement<T>>(path);
+        if (!element)
+            return fail("ENOENT", path);
+
+        // the element is not modified in place, since it might be cached
+        const modified = Date.now();
+        if (element.type === "file")
+            this.setElement<StorageFile<T>>(path, {
+                type: "file",
+                content: element.content,
+                codec: element.codec,
+                version: element.version,
+                created: element.created,
+                modified: modified,
+                attributes: attributes,
+            });
+        else if (element.type === "link")
+            this.setElement<StorageLink>(path, {
+                type: "link",
+                target: element.target,
+                created: element.created,
+                modified: modified,
+                attributes: attributes,
+            });
+        else
+            this.setElement<StorageFolder<T>>(path, {
+                type: "folder",
+                files: element.files,
+                order: element.order,
+                created: element.created,
+                modified: modified,
+                attributes: attributes,
+                trash: element.trash,
+            });
+        this.notify({ type: "attributesChanged", path: path });
+        return OK;
+    }
+
+    public trySetOrder(path: string, children: string[]): Result {
+        const target = this.getTarget(path);
+        if (!target)
+            return fail("ENOENT", path);
+        const current = this.getChildren(target.path);
+        if (!current)
+            return fail("ENOTDIR", path);
+        for (let idx = 0; idx < children.length; idx++)
+            if (current.indexOf(children[idx]) === -1 || children.indexOf(children[idx]) !== idx)
+                return fail("EINVAL", children[idx], "Not a child of the folder or listed twice");
+
+        const order = children.concat(current.filter(child => children.indexOf(child) === -1));
+        this.write(this.getOrderKey(target.path), order.map(child => child.slice(target.path.length + 1)));
+        this.notify({ type: "reordered", path: target.path });
+        return OK;
+    }
+
+    /**
+        Checks if a file or folder can be created at a path, i.e. if it does not exist yet
+        and if there is no file or link in its ancestors. If so, then creates all missing ancestors.
+    */
+    private checkCreation(path: string): Result {
+        if (this.exists(path))
+            return fail("EEXIST", path);
+
+        const missing = [] as string[];
+        for (let parent = this.getParent(path); parent !== undefined; parent = this.getParent(parent)) {
+            // links are not followed, since the children of a link are the children of its target
+            const element = this.getElement<StorageElement<T>>(parent);
+            if (element && element.type !== "folder")
+                return fail("ENOTDIR", parent);
+            if (element)
+                break;
+            missing.unshift(parent);
+        }
+        missing.forEach(parent => this.tryCreateFolder(parent));
+        return OK;
+    }
+
+    // replaces a file in the persisted order of its parent by another file of that parent, or removes it
+    private updateOrder(path: string, replacement: string | undefined): void {
+        const parent = this.getParent(path);
+        if (parent === undefined)
+            return;
+        const order = this.read<string[]>(this.getOrderKey(parent));
+        const idx = order ? order.indexOf(path.slice(parent.length + 1)) : -1;
+        if (!order || idx === -1)
+            return;
+        const updated = order.slice();
+        if (replacement === undefined)
+            updated.splice(idx, 1);
+        else
+            updated.splice(idx, 1, replacement.slice(parent.length + 1));
+        this.write(this.getOrderKey(parent), updated);
+    }
+
+    // gets the child path with the given name, or with the name and a suffix like " (2)" if that child already exists
+    private getAvailableChild(parent: string, name: string): string {
+        let path = this.getChild(parent, name);
+        for (let idx = 2; this.exists(path); idx++)
+            path = this.getChild(parent, `${name} (${idx})`);
+        return path;
+    }
+
+
+    // VALIDATION
+
+    private isValid(path: string, data: unknown): boolean {
+        if (!this.validation || this.validation.validator(data))
+            return true;
+        this.validation.onInvalidData && this.validation.onInvalidData(path, data);
+        return false;
+    }
+
+    private handleInvalid(path: string): void {
+        if (!this.validation)
+            return;
+        switch (this.validation.policy) {
+            case "drop":
+                this.delete(path);
+                break;
+            case "quarantine": {
+                const folder = this.getChild(this.getRoot(), this.validation.quarantine || "quarantine");
+                if (path.indexOf(folder + ".") === 0)
+                    return;
+                this.createFolder(folder);
+                this.move(path, this.getAvailableChild(folder, this.getName(path)));
+                break;
+            }
+        }
+    }
+
+
+    // TRASH
+
+    private getTrashKey(id?: string): string {
+        return this.namespace + ".trash" + (id === undefined ? "" : "." + id);
+    }
+
+    private createTrashId(): string {
+        const id = String(Date.now());
+        let result = id;
+        for (let idx = 2; this.contains(this.getTrashKey(result)); idx++)
+            result = id + "_" + idx;
+        return result;
+    }
+
+    /** Gets all entries of the trash, ordered by the time of deletion. */
+    public getTrash(): TrashEntry[] {
+        const trash = this.read<{ [id: string]: StorageTrashEntry<T> }>(this.getTrashKey()) || {};
+        return Object.keys(trash).map(id => ({
+            id: id,
+            path: trash[id].path,
+            name: this.getName(trash[id].path),
+            deleted: trash[id].deleted,
+            isFolder: trash[id].element.type === "folder",
+        })).sort((a, b) => a.deleted - b.deleted);
+    }
+
+    /**
+        Restores an entry of the trash to its original path. If there already exists a file or folder
+        at that path, then a suffix like " (2)" is added to the name. Missing parent folders are created.
+        Returns the path of the restored file or folder, or undefined if the operation failed.
+    */
+    public restore(id: string): string | undefined {
+        const entry = this.read<StorageTrashEntry<T>>(this.getTrashKey(id));
+        if (!entry)
+            return undefined;
+
+        const parent = this.getParent(entry.path);
+        const path = parent === undefined ? entry.path : this.getAvailableChild(parent, this.getName(entry.path));
+        if (!this.checkCreation(path).ok)
+            return undefined;
+
+        this.setElement(path, entry.element);
+        this.write(this.getTrashKey(id), undefined);
+        this.notify({ type: "created", path: path });
+        return path;
+    }
+
+    /**
+        Permanently deletes all entries of the trash, or only those that were deleted
+        at least a given number of milliseconds ago.
+        Returns the number of deleted entries.
+    */
+    public emptyTrash(age: number = 0): number {
+        const now = Date.now();
+        const entries = this.getTrash().filter(entry => now - entry.deleted >= age);
+        entries.forEach(entry => this.write(this.getTrashKey(entry.id), undefined));
+        return entries.length;
+    }
+
+
+    // TRANSACTIONS
+
+    // previous elements of all paths written during the current transaction
+    private journal: JournalEntry[] | undefined = undefined;
+    // events of the current transaction
+    private pending: FileSystemEvent[] = [];
+
+    public transaction(operations: () => boolean | void): boolean {
+        const outermost = this.journal === undefined;
+        const journal = this.journal = this.journal || [];
+        const journalLength = journal.length;
+        const pendingLength = this.pending.length;
+
+        let committed = false;
+        try {
+            committed = operations() !== false;
+        } finally {
+            if (!committed) {
+                while (journal.length > journalLength) {
+                    const entry = journal.pop() as JournalEntry;
+                    this.store(entry.key, entry.value);
+                }
+                this.pending.length = pendingLength;
+            }
+            if (outermost) {
+                const events = this.pending;
+                this.journal = undefined;
+                this.pending = [];
+                if (events.length > 0)
+                    this.notify({
+                        type: "transaction",
+                        path: getCommonAncestor(this, events),
+                        events: events,
+                    });
+            }
+        }
+        return committed;
+    }
+
+
+
+    // CACHE
+
+    /**
+        Discards the cached storage, such that it is read again on the next access.
+        Only required if the cache is enabled and the storage was changed by other means than a file system.
+    */
+    public invalidateCache(): void {
+        this.cache && this.cache.invalidate();
+    }
+
+
+    // CHANGE DETECTION
+
+    // snapshot of the file system, if the change detection is enabled
+    private snapshot: Snapshot | undefined = undefined;
+    // hash of the stored root element when the snapshot was taken, undefined after changes made by this file system
+    private snapshotHash: string | undefined = undefined;
+
+    /**
+        Detects changes to the storage that were not made by this file system, e.g. by other plugins
+        or by hand, and reports them to the watchers, like changes made by this file system.
+        The first call only takes a snapshot of the file system, to which the following calls
+        compare the storage. Afterwards, the snapshot is updated with each change made by this file system.
+        If the stored root folder did not change, nothing else is read and the cache is kept.
+        Returns the number of detected changes.
+    */
+    public detectChanges(): number {
+        if (this.journal)
+            return 0;
+        // the stored root element contains the whole file system, so nothing changed if its hash did not change
+        const rootHash = hash(JSON.stringify(this.get(this.getKey("")) || null));
+        if (this.snapshot && rootHash === this.snapshotHash)
+            return 0;
+        this.snapshotHash = rootHash;
+        this.cache && this.cache.invalidate();
+
+        const snapshot = this.takeSnapshot("");
+        const events = [] as FileSystemEvent[];
+        this.snapshot && this.compareSnapshots(this.snapshot, snapshot, "", events);
+        this.snapshot = snapshot;
+        events.forEach(event => this.watchers.forEach(watcher => watcher(event)));
+        return events.length;
+    }
+
+    /**
+        Detects changes to the storage every given number of game ticks (by default 40, i.e. about one second).
+        Returns a callback to stop the change detection.
+    */
+    public startChangeDetection(ticks: number = 40): () => void {
+        this.detectChanges();
+        let count = 0;
+        const subscription = context.subscribe("interval.tick", () => {
+            if (++count < ticks)
+                return;
+            count = 0;
+            this.detectChanges();
+        });
+        return () => subscription.dispose();
+    }
+
+    private createSnapshotEntry(path: string, element: StorageElement<T>): SnapshotEntry {
+        return {
+            type: element.type,
+            data: element.type === "file" ? hash(JSON.stringify([element.content, element.codec, element.version])) : element.type === "link" ? hash(element.target) : "",
+            attributes: hash(JSON.stringify(element.attributes || {})),
+            children: element.type === "folder" ? getFileKeys(element).map(key => path + "." + key) : [],
+        };
+    }
+
+    private takeSnapshot(path: string, element = this.getElement<StorageElement<T>>(path), snapshot: Snapshot = {}): Snapshot {
+        if (element) {
+            const entry = snapshot[path] = this.createSnapshotEntry(path, element);
+            if (element.type === "folder")
+                entry.children.forEach(child => this.takeSnapshot(child, element.files[child.slice(path.length + 1)], snapshot));
+        }
+        return snapshot;
+    }
+
+    // updates the snapshot after a change made by this file system
+    private updateSnapshot(event: FileSystemEvent): void {
+        const snapshot = this.snapshot;
+        if (!snapshot)
+            return;
+        this.snapshotHash = undefined;
+        if (event.type === "transaction")
+            return event.events.forEach(event => this.updateSnapshot(event));
+
+        const remove = (path: string): void => {
+            const entry = snapshot[path];
+            entry && entry.children.forEach(remove);
+            delete snapshot[path];
+        };
+        [event.path].concat(event.type === "moved" || event.type === "renamed" ? [event.oldPath] : []).forEach(path => {
+            remove(path);
+            this.takeSnapshot(path, undefined, snapshot);
+            const parent = this.getParent(path);
+            const element = parent === undefined ? undefined : this.getElement<StorageElement<T>>(parent);
+            if (parent !== undefined && element)
+                snapshot[parent] = this.createSnapshotEntry(parent, element);
+        });
+    }
+
+    // compares the snapshots of a path and its descendants, only the highest changed paths are reported
+    private compareSnapshots(before: Snapshot, after: Snapshot, path: string, events: FileSystemEvent[]): void {
+        const old = before[path];
+        const current = after[path];
+        if (!old && !current)
+            return;
+        if (!old || !current || old.type !== current.type) {
+            old && events.push({ type: "deleted", path: path });
+            current && events.push({ type: "created", path: path });
+            return;
+        }
+
+        if (old.attributes !== current.attributes)
+            events.push({ type: "attributesChanged", path: path });
+        if (old.data !== current.data)
+            events.push({ type: "dataChanged", path: path });
+        if (current.type !== "folder")
+            return;
+
+        const common = old.children.filter(child => current.children.indexOf(child) !== -1);
+        if (common.join("/") !== current.children.filter(child => old.children.indexOf(child) !== -1).join("/"))
+            events.push({ type: "reordered", path: path });
+        old.children.concat(current.children.filter(child => old.children.indexOf(child) === -1))
+            .forEach(child => this.compareSnapshots(before, after, child, events));
+    }
+
+
+    // CODECS
+
+    private getCodecId(): string | undefined {
+        return this.codec.length === 0 ? undefined : this.codec.map(codec => codec.id).join("+");
+    }
+
+    // encodes the content of a decoded file with the current codecs
+    private encode(file: StorageFile<T>): StorageFile<T> {
+        if (this.codec.length === 0)
+            return file;
+        return {
+            type: "file",
+            content: <T>this.codec.reduce((content: unknown, codec) => codec.encode(content), file.content),
+            codec: this.getCodecId(),
+            version: file.version,
+            created: file.created,
+            modified: file.modified,
+            attributes: file.attributes,
+        };
+    }
+
+    // encodes the migrated data of a stored file, whose revision is kept
+    private encodeMigrated(file: StorageFile<T>, stored: StorageFile<T>): StorageFile<T> {
+        const encoded = this.encode(file);
+        return {
+            type: "file",
+            content: encoded.content,
+            codec: encoded.codec,
+            version: encoded.version,
+            created: encoded.created,
+            modified: encoded.modified,
+            attributes: encoded.attributes,
+            revision: getRevision(stored),
+        };
+    }
+
+    // decodes the content of a file, returns undefined if a codec is unknown or fails
+    private decode(file: StorageFile<T>): StorageFile<T> | undefined {
+        if (file.codec === undefined)
+            return file;
+        const codecs = file.codec.split("+").map(id => this.codecs[id]);
+        if (codecs.some(codec => codec === undefined))
+            return undefined;
+
+        let content: unknown = file.content;
+        try {
+            content = codecs.reduceRight((content, codec) => codec.decode(content), content);
+        } catch (error) {
+            return undefined;
+        }
+        return {
+            type: "file",
+            content: <T>content,
+            version: file.version,
+            created: file.created,
+            modified: file.modified,
+            attributes: file.attributes,
+        };
+    }
+
+
+    // SCHEMA MIGRATION
+
+    /**
+        Upgrades the data of all files in a folder and its subfolders to the
+        current schema version and writes it back, regardless of the writeBack option.
+        Files that were written with other codecs are encoded with the current codec.
+        Upgrades the whole file system if no path is given.
+        Returns the number of upgraded files.
+    */
+    public migrateAll(path: string = this.getRoot()): number {
+        // stored data must not be modified by the migrations
+        const element = clone(this.getElement<StorageElement<T>>(path));
+        if (!element)
+            return 0;
+
+        let count = 0;
+        const migrate = (element: StorageElement<T>): StorageElement<T> => {
+            if (element.type === "link")
+                return element;
+            if (element.type === "folder") {
+                // the element is not modified in place, since it might be cached
+                const files = {} as { [key: string]: StorageElement<T> };
+                Object.keys(element.files).forEach(key => {
+                    files[key] = migrate(element.files[key]);
+                });
+                return <StorageFolder<T>>{
+                    type: "folder",
+                    files: files,
+                    order: element.order,
+                    created: element.created,
+                    modified: element.modified,
+                    attributes: element.attributes,
+                    trash: element.trash,
+                };
+            }
+            const decoded = this.decode(element);
+            const upgraded = decoded && this.upgrade(decoded);
+            if (upgraded === undefined || (upgraded === decoded && element.codec === this.getCodecId()))
+                return element;
+            count++;
+            return this.encodeMigrated(upgraded, element);
+        };
+
+        const migrated = migrate(element);
+        if (count > 0) {
+            this.setElement(path, migrated);
+            // the migration is not reported, but it must not be detected as external change
+            this.snapshot && !this.journal && this.updateSnapshot({ type: "dataChanged", path: path });
+        }
+        return count;
+    }
+
+    /**
+        Upgrades a file to the current schema version.
+        Returns the file itself if it is up to date, and undefined if its version is newer than the current one.
+    */
+    private upgrade(file: StorageFile<T>): StorageFile<T> | undefined {
+        if (!this.schema)
+            return file;
+
+        const version = file.version || 0;
+        if (version > this.schema.version)
+            return undefined;
+        if (version === this.schema.version)
+            return file;
+
+        let content: unknown = file.content;
+        for (let v = version; v < this.schema.version; v++) {
+            const migration = this.schema.migrations[v];
+            if (!migration)
+                throw new Error(`Missing migration from schema version ${v} to ${v + 1}.`);
+            content = migration(content);
+        }
+        return {
+            type: "file",
+            content: <T>content,
+            version: this.schema.version,
+            created: file.created,
+            modified: file.modified,
+            attributes: file.attributes,
+        };
+    }
+
+    private transfer(src: string, dst: string, type: "moved" | "renamed"): Result {
+        const element = this.getElement<StorageElement<T>>(src);
+        if (!element)
+            return fail("ENOENT", src);
+        // cannot move a folder into itself
+        if (dst === src || dst.indexOf(src + ".") === 0)
+            return fail("EINVAL", dst, "Cannot move a folder into itself");
+        const result = this.checkCreation(dst);
+        if (!result.ok)
+            return result;
+
+        this.setElement(dst, element);
+        this.setElement(src, undefined);
+        // a file or folder that stays in the same folder keeps its position
+        this.updateOrder(src, this.getParent(src) === this.getParent(dst) ? dst : undefined);
+        this.notify({ type: type, path: dst, oldPath: src });
+        return OK;
+    }
+
+    // copies get new timestamps, but keep the attributes
+    private deepCopy<T>(element: StorageElement<T>, now: number = Date.now()): StorageElement<T> {
+        if (element.type === "file") {
+            const file = <StorageFile<T>>element;
+            return {
+                type: "file",
+                content: file.content,
+                codec: file.codec,
+                version: file.version,
+                created: now,
+                modified: now,
+                attributes: file.attributes,
+            };
+        } else if (element.type === "link") {
+            return {
+                type: "link",
+                target: element.target,
+                created: now,
+                modified: now,
+                attributes: element.attributes,
+            };
+        } else {
+            const folder = <StorageFolder<T>>element;
+            const files = {} as { [key: string]: StorageElement<T> };
+            Object.keys(folder.files).forEach(key => {
+                files[key] = this.deepCopy(folder.files[key], now);
+            });
+            return <StorageElement<T>>{
+                type: "folder",
+                files: files,
+                order: folder.order,
+                created: now,
+                modified: now,
+                attributes: folder.attributes,
+            };
+        }
+    }
+}
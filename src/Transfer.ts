@@ -0,0 +1,56 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { createLink } from "./Exchange";
+import { FileSystem, Result } from "./FileSystem";
+import { getReference } from "./PathString";
+import { fail, first, OK } from "./Result";
+
+function copyElement<T>(srcFs: FileSystem<T>, src: string, dstFs: FileSystem<T>, dst: string): Result {
+    let result: Result;
+    if (srcFs.isLink(src)) {
+        // the target keeps its position relative to the root, so the link might be broken in the other file system
+        result = createLink(dstFs, dst, getReference(srcFs, srcFs.getLinkTarget(src) as string));
+    } else if (srcFs.isFile(src)) {
+        const data = srcFs.getData(src);
+        if (data === undefined)
+            return fail("EIO", src, "Cannot read data");
+        result = dstFs.tryCreateFile(dst, data);
+    } else {
+        const children = srcFs.getChildren(src) || [];
+        result = first(
+            () => dstFs.tryCreateFolder(dst),
+            ...children.map(child => () => copyElement(srcFs, child, dstFs, dstFs.getChild(dst, srcFs.getName(child)))),
+        );
+    }
+    if (!result.ok)
+        return result;
+
+    const metadata = srcFs.getMetadata(src);
+    return !metadata || Object.keys(metadata.attributes).length === 0 ? OK : dstFs.trySetAttributes(dst, metadata.attributes);
+}
+
+/**
+    Copies or moves a file or folder from one file system to another one by using their public API.
+    The transfer is done in a transaction on both file systems, i.e. if it fails, nothing is changed.
+    Returns the result of the transfer. The path of a failure belongs to the file system that caused it.
+*/
+export function transfer<T>(srcFs: FileSystem<T>, src: string, dstFs: FileSystem<T>, dst: string, move: boolean): Result {
+    if (!srcFs.exists(src))
+        return fail("ENOENT", src);
+    if (dstFs.exists(dst))
+        return fail("EEXIST", dst);
+
+    let result = OK;
+    dstFs.transaction(() => {
+        result = copyElement(srcFs, src, dstFs, dst);
+        if (result.ok && move)
+            srcFs.transaction(() => (result = srcFs.tryDelete(src)).ok);
+        return result.ok;
+    });
+    return result;
+}
@@ -0,0 +1,38 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+/** A type guard that checks if data has the file data type <T>. */
+export type Validator<T> = (data: unknown) => data is T;
+
+/**
+    Describes how invalid data of a file is handled when it is read:
+    - "reject": The file is kept, but its data is not returned.
+    - "drop": The file is deleted.
+    - "quarantine": The file is moved to the quarantine folder.
+*/
+export type InvalidDataPolicy = "reject" | "drop" | "quarantine";
+
+/** Describes how file data is validated at runtime. */
+export interface Validation<T> {
+    /** The validator for the file data. */
+    validator: Validator<T>;
+
+    /** The policy for invalid data that is read. Defaults to "reject". */
+    policy?: InvalidDataPolicy;
+
+    /**
+        The name of the folder in the root folder to which files with invalid
+        data are moved if the policy is "quarantine". Defaults to "quarantine".
+    */
+    quarantine?: string;
+
+    /**
+        A callback that is called whenever invalid data is written or read,
+        with the path of the file and the invalid data.
+    */
+    onInvalidData?: (path: string, data: unknown) => void;
+}
@@ -7,7 +7,35 @@
 
 /// <reference path="./../../openrct2.d.ts" />
 
-export { FileSystem, FileSystemWatcher } from "./FileSystem";
-export { Path } from "./Path";
+export { Attributes, FileSystem, FileSystemError, FileSystemErrorCode, FileSystemEvent, FileSystemWatcher, Metadata, Result } from "./FileSystem";
+export { ChildrenOptions, Path, PathComparator, PathVisitor, PathWatcher, WalkOrder } from "./Path";
+export { AsyncFileSystem, Callback, Operation } from "./AsyncFileSystem";
+export { AsyncPath, AsyncPathWatcher } from "./AsyncPath";
 
+export { ConflictStrategy } from "./Exchange";
+export { FileDialog, FileDialogMode, FileDialogOptions } from "./FileDialog";
+export { ClassCodec, ClassSerializer, Codec, CompressionCodec } from "./Codec";
+export { Migration, Schema } from "./Schema";
+export { InvalidDataPolicy, Validation, Validator } from "./Validation";
+
+export { StorageFileSystem, StorageFileSystemOptions, TrashEntry } from "./StorageFileSystem";
 export { JsonFileSystem } from "./JsonFileSystem";
+export { ParkFileSystem } from "./ParkFileSystem";
+export { MemoryFileSystem } from "./MemoryFileSystem";
+export { MountFileSystem } from "./MountFileSystem";
+
+export { FileSystemWrapper } from "./FileSystemWrapper";
+export { ReadOnlyFileSystem } from "./ReadOnlyFileSystem";
+export { Quota, QuotaFileSystem, Usage } from "./QuotaFileSystem";
+export { JournalFileSystem } from "./JournalFileSystem";
+
+export { ProtocolFileSystem } from "./ProtocolFileSystem";
+export { AsyncFileSystemAdapter } from "./AsyncFileSystemAdapter";
+export { SocketFileSystem, SocketFileSystemOptions } from "./SocketFileSystem";
+export { FileSystemServer } from "./FileSystemServer";
+export { MultiplayerFileSystem, MultiplayerFileSystemOptions, MultiplayerPermission } from "./MultiplayerFileSystem";
+export { ActionTransport, MultiplayerHandlers, MultiplayerTransport } from "./MultiplayerTransport";
+export { ClientMessage, Query, Request, ServerMessage } from "./Protocol";
+
+export { ConformanceFailure, ConformanceOptions, ConformanceTest, getConformanceTests, runConformanceTests } from "./Conformance";
+export { ConfigurationMock, ContextMock, mockContext } from "./ContextMock";
@@ -0,0 +1,80 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { ClassCodec, CompressionCodec, JsonFileSystem, MemoryFileSystem } from "../src/index";
+import { compress, decompress } from "../src/Compression";
+import { check, checkEqual, suite } from "./Test";
+
+class Point {
+    public readonly x: number;
+    public readonly y: number;
+
+    public constructor(x: number, y: number) {
+        this.x = x;
+        this.y = y;
+    }
+}
+
+function repeat<S>(value: S, count: number): S[] {
+    const result = [] as S[];
+    while (result.length < count)
+        result.push(value);
+    return result;
+}
+
+const points = new ClassCodec("points", {
+    point: {
+        type: Point,
+        serialize: (point: Point) => [point.x, point.y],
+        deserialize: data => new Point((<number[]>data)[0], (<number[]>data)[1]),
+    },
+});
+
+export default suite("Codec", test => {
+    test("compression round-trips", () => {
+        [
+            "",
+            "a",
+            "abababababababababab",
+            "ä €\u0000￿",
+            JSON.stringify({ rides: repeat({ name: "ride", price: 10 }, 100) }),
+        ].forEach(text => checkEqual(decompress(compress(text)), text, `The decompressed text of ${text.slice(0, 20)}`));
+        const text = JSON.stringify(repeat("repeated", 100));
+        check(compress(text).length < text.length / 4, "Repetitive text is not compressed");
+    });
+
+    test("class instances round-trip", () => {
+        const data = { a: new Point(1, 2), list: [new Point(3, 4)], nested: { $class: "point", data: 5 } };
+        const decoded = points.decode(JSON.parse(JSON.stringify(points.encode(data)))) as typeof data;
+        check(decoded.a instanceof Point && decoded.list[0] instanceof Point, "The instances were not restored");
+        checkEqual(decoded, data, "The decoded data");
+    });
+
+    test("files are encoded and decoded", () => {
+        const fs = new MemoryFileSystem<unknown>({ codec: [points, new CompressionCodec()] });
+        const path = fs.getChild(fs.getRoot(), "x");
+        fs.createFile(path, { a: new Point(1, 2) });
+        const data = fs.getData(path) as { a: Point };
+        check(data.a instanceof Point, "The instance was not restored");
+        checkEqual(data, { a: new Point(1, 2) }, "The data");
+
+        // files are decoded by the codecs that were used to write them
+        const other = new MemoryFileSystem<unknown>({ codecs: [points] });
+        other.createFile(path, 0);
+        checkEqual(other.getData(path), 0, "The data of a file without codec");
+    });
+
+    test("files with unknown codecs cannot be read", () => {
+        // both file systems use the same storage of the mocked context
+        const fs = new JsonFileSystem<unknown>("test.codec", { codec: points });
+        const path = fs.getChild(fs.getRoot(), "x");
+        fs.createFile(path, new Point(1, 2));
+        check(fs.getData(path) instanceof Point, "The instance was not restored");
+        checkEqual(new JsonFileSystem<unknown>("test.codec").getData(path), undefined, "The data without the codec");
+        check(new JsonFileSystem<unknown>("test.codec").isFile(path), "The file without the codec is not a file");
+    });
+});
@@ -0,0 +1,88 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { MemoryFileSystem, Path } from "../src/index";
+import { check, checkEqual, suite } from "./Test";
+
+type Data = { value: number };
+
+// gets the names and data of a folder and its descendants
+function list(path: Path<Data>): { [reference: string]: Data | undefined } {
+    const result: { [reference: string]: Data | undefined } = {};
+    path.walk(descendant => { result[descendant.getReference().slice(path.getReference().length)] = descendant.getData(); });
+    return result;
+}
+
+function createRoot(): Path<Data> {
+    return Path.getRoot(new MemoryFileSystem<Data>());
+}
+
+export default suite("Exchange", test => {
+    test("folders are exported and imported with their content", () => {
+        const src = createRoot().addFolder("a") as Path<Data>;
+        src.addFile("x", { value: 0 });
+        (src.addFolder("b") as Path<Data>).addFile("y", { value: 1 });
+        src.setAttributes({ author: "Sadret" });
+        const text = src.export() as string;
+
+        const imported = createRoot().import(text);
+        check(imported !== undefined, "The import failed");
+        if (imported) {
+            checkEqual(imported.getReference(), "/a", "The path of the imported folder");
+            checkEqual(list(imported), list(src), "The imported files and folders");
+            checkEqual((imported.getMetadata() || { attributes: {} }).attributes, { author: "Sadret" }, "The attributes");
+        }
+    });
+
+    test("links are exported with references", () => {
+        const root = createRoot();
+        const a = root.addFolder("a") as Path<Data>;
+        const x = a.addFile("x", { value: 0 }) as Path<Data>;
+        a.addLink("link", x);
+
+        const other = createRoot();
+        other.import(a.export() as string);
+        const link = other.getChild("a").getChild("link");
+        check(link.isLink(), "The link was not imported");
+        checkEqual(link.getData(), { value: 0 }, "The data of the link");
+    });
+
+    test("conflicts are resolved by the strategy", () => {
+        const root = createRoot();
+        const src = createRoot().addFolder("a") as Path<Data>;
+        src.addFile("x", { value: 1 });
+        src.addFile("y", { value: 2 });
+        const text = src.export() as string;
+        const a = root.addFolder("a") as Path<Data>;
+        a.addFile("x", { value: 0 });
+
+        checkEqual(root.import(text, "skip"), undefined, "The skipped import");
+        checkEqual(list(a), { "": undefined, "/x": { value: 0 } }, "The files after skipping");
+        checkEqual((root.import(text, "merge") as Path<Data>).getReference(), "/a", "The path of the merged folder");
+        checkEqual(list(a), { "": undefined, "/x": { value: 0 }, "/x (2)": { value: 1 }, "/y": { value: 2 } }, "The files after merging");
+        checkEqual((root.import(text, "rename") as Path<Data>).getReference(), "/a (2)", "The path of the renamed folder");
+        checkEqual((root.import(text, "overwrite") as Path<Data>).getReference(), "/a", "The path of the overwritten folder");
+        checkEqual(list(a), { "": undefined, "/x": { value: 1 }, "/y": { value: 2 } }, "The files after overwriting");
+    });
+
+    test("invalid documents are not imported", () => {
+        const root = createRoot();
+        const text = (root.addFile("x", { value: 0 }) as Path<Data>).export() as string;
+        const document = JSON.parse(text);
+        [
+            "",
+            "{",
+            "null",
+            JSON.stringify({ ...document, format: "other" }),
+            JSON.stringify({ ...document, version: document.version + 1 }),
+            JSON.stringify({ ...document, element: { type: "file", name: 0, data: 0 } }),
+            JSON.stringify({ ...document, element: { type: "folder", name: "a", children: [null] } }),
+            JSON.stringify({ ...document, element: { type: "link", name: "a", target: 0 } }),
+        ].forEach(text => checkEqual(root.import(text, "rename"), undefined, `The import of ${text}`));
+        checkEqual((root.getChildren() || []).map(child => child.getName()), ["x"], "The children of the root");
+    });
+});
@@ -0,0 +1,148 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { FileDialog, FileDialogMode, MemoryFileSystem, Path } from "../src/index";
+import { check, checkEqual, suite } from "./Test";
+
+type Data = { value: number };
+
+// the properties of the widgets that are used by the dialog
+interface WidgetStub {
+    text?: string;
+    isDisabled?: boolean;
+    items?: string[][];
+    onClick?: (row: number) => void;
+    onChange?: (text: string) => void;
+}
+
+// a user interface that keeps the widgets of the opened window in memory
+class UiStub {
+    public readonly widgets: { [name: string]: WidgetStub } = {};
+    public closed = false;
+    // the text that is entered into the next text input
+    public input = "";
+
+    public openWindow(desc: WindowDesc): Window {
+        (desc.widgets || []).forEach(widget => widget.name && (this.widgets[widget.name] = <WidgetStub><unknown>{ ...widget }));
+        const window = {
+            findWidget: (name: string) => this.widgets[name],
+            close: () => {
+                this.closed = true;
+                desc.onClose && desc.onClose();
+            },
+        };
+        return <Window><unknown>window;
+    }
+
+    public showTextInput(desc: TextInputDesc): void {
+        desc.callback(this.input);
+    }
+
+    public showError(title: string, message: string): void {
+        throw new Error(`${title} ${message}`);
+    }
+
+    // clicks a button or a row of the list
+    public click(name: string, row: number = 0): void {
+        const widget = this.widgets[name];
+        check(!widget.isDisabled, `The widget ${name} is disabled`);
+        widget.onClick && widget.onClick(row);
+    }
+
+    // enters a text into a text box
+    public type(name: string, text: string): void {
+        const widget = this.widgets[name];
+        widget.onChange && widget.onChange(text);
+    }
+
+    // gets the names of the shown entries
+    public getItems(): string[] {
+        return (this.widgets["list"].items || []).map(item => item[0]);
+    }
+}
+
+// creates a tree with the folders a and b and the files a/x and y, and opens a dialog on its root
+function open(mode: FileDialogMode, onSelect: (path: Path<Data>) => void = () => { }): { ui: UiStub, root: Path<Data>, dialog: FileDialog<Data> } {
+    const root = Path.getRoot(new MemoryFileSystem<Data>());
+    (root.addFolder("a") as Path<Data>).addFile("x", { value: 0 });
+    root.addFolder("b");
+    root.addFile("y", { value: 1 });
+    const ui = new UiStub();
+    return { ui: ui, root: root, dialog: FileDialog.open({ mode: mode, root: root, onSelect: onSelect, ui: <Ui><unknown>ui }) };
+}
+
+export default suite("FileDialog", test => {
+    test("folders are navigated", () => {
+        const { ui, root, dialog } = open("open");
+        checkEqual(ui.getItems(), ["a", "b", "y"], "The entries of the root");
+        check(ui.widgets["up"].isDisabled === true, "Up is enabled in the root");
+
+        // clicking an entry selects it, clicking it again opens it
+        ui.click("list", 0);
+        const selection = dialog.getSelection();
+        checkEqual(selection && selection.getReference(), "/a", "The selection");
+        ui.click("list", 0);
+        checkEqual(dialog.getFolder().getReference(), "/a", "The folder");
+        checkEqual(ui.getItems(), ["x"], "The entries of the folder");
+
+        ui.input = "c";
+        ui.click("new-folder");
+        checkEqual(ui.getItems(), ["c", "x"], "The entries after creating a folder");
+
+        ui.click("up");
+        checkEqual(dialog.getFolder().getReference(), "/", "The folder after going up");
+        check(root.getChild("a").getChild("c").isFolder(), "The folder was not created");
+    });
+
+    test("a file is opened", () => {
+        const selected = [] as string[];
+        const { ui, dialog } = open("open", path => selected.push(path.getReference()));
+        ui.click("list", 0);
+        ui.click("list", 0);
+        check(ui.widgets["confirm"].isDisabled === true, "Open is enabled without a selected file");
+        ui.click("list", 0);
+        ui.click("confirm");
+        checkEqual(selected, ["/a/x"], "The selected files");
+        check(dialog.isClosed() && ui.closed, "The dialog was not closed");
+    });
+
+    test("a file is saved", () => {
+        const selected = [] as string[];
+        const { ui, root, dialog } = open("save", path => {
+            selected.push(path.getReference());
+            path.exists() ? path.setData({ value: 2 }) : path.createFile({ value: 2 });
+        });
+        ui.type("name", "z");
+        checkEqual(dialog.getName(), "z", "The name");
+        ui.click("confirm");
+        checkEqual(selected, ["/z"], "The saved files");
+        checkEqual(root.getChild("z").getData(), { value: 2 }, "The data of the saved file");
+        check(dialog.isClosed() && ui.closed, "The dialog was not closed");
+    });
+
+    test("overwriting a file is confirmed", () => {
+        const selected = [] as string[];
+        const { ui, dialog } = open("save", path => selected.push(path.getReference()));
+        ui.click("list", 2);
+        checkEqual(ui.widgets["name"].text, "y", "The name after selecting a file");
+        ui.click("confirm");
+        checkEqual(selected, [], "The saved files after the first click");
+        checkEqual(ui.widgets["status"].text, `Click "Save" again to overwrite y.`, "The status");
+        ui.click("confirm");
+        checkEqual(selected, ["/y"], "The saved files after the second click");
+        check(dialog.isClosed(), "The dialog was not closed");
+    });
+
+    test("the dialog is cancelled", () => {
+        let cancelled = false;
+        const ui = new UiStub();
+        const root = Path.getRoot(new MemoryFileSystem<Data>());
+        const dialog = FileDialog.open({ mode: "open", root: root, onSelect: () => { }, onCancel: () => cancelled = true, ui: <Ui><unknown>ui });
+        ui.click("cancel");
+        check(cancelled && dialog.isClosed() && ui.closed, "The dialog was not cancelled");
+    });
+});
@@ -0,0 +1,82 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { JournalFileSystem, MemoryFileSystem, Path } from "../src/index";
+import { check, checkEqual, suite } from "./Test";
+
+type Data = { value: number };
+
+// gets the names and data of the descendants of a folder
+function list(path: Path<Data>): { [reference: string]: Data | undefined } {
+    const result: { [reference: string]: Data | undefined } = {};
+    path.walk(descendant => { result[descendant.getReference()] = descendant.getData(); });
+    return result;
+}
+
+export default suite("JournalFileSystem", test => {
+    test("changes are undone and redone", () => {
+        const fs = new JournalFileSystem<Data>(new MemoryFileSystem());
+        const root = Path.getRoot(fs);
+        const states = [list(root)];
+        const a = root.addFolder("a") as Path<Data>;
+        states.push(list(root));
+        const x = a.addFile("x", { value: 0 }) as Path<Data>;
+        states.push(list(root));
+        x.setData({ value: 1 });
+        states.push(list(root));
+        x.rename("y");
+        states.push(list(root));
+        a.getChild("y").move(root.getChild("b").getChild("z"));
+        states.push(list(root));
+        a.delete();
+        states.push(list(root));
+
+        checkEqual(fs.getUndoName(), "delete", "The name of the last entry");
+        for (let idx = states.length - 2; idx >= 0; idx--) {
+            check(fs.undo(), `Undoing to state ${idx} failed`);
+            checkEqual(list(root), states[idx], `State ${idx} after undoing`);
+        }
+        check(!fs.canUndo(), "There are entries left to undo");
+        for (let idx = 1; idx < states.length; idx++) {
+            check(fs.redo(), `Redoing to state ${idx} failed`);
+            checkEqual(list(root), states[idx], `State ${idx} after redoing`);
+        }
+        check(!fs.canRedo(), "There are entries left to redo");
+    });
+
+    test("checkpoints are undone at once", () => {
+        const fs = new JournalFileSystem<Data>(new MemoryFileSystem());
+        const root = Path.getRoot(fs);
+        fs.checkpoint("import", () => {
+            root.addFile("x", { value: 0 });
+            root.addFile("y", { value: 1 });
+        });
+        checkEqual(fs.getUndoName(), "import", "The name of the checkpoint");
+        check(fs.undo(), "Undoing failed");
+        checkEqual(list(root), { "/": undefined }, "The files after undoing");
+        check(!fs.canUndo(), "There are entries left to undo");
+    });
+
+    test("new changes clear the redo history", () => {
+        const fs = new JournalFileSystem<Data>(new MemoryFileSystem());
+        const root = Path.getRoot(fs);
+        root.addFile("x", { value: 0 });
+        fs.undo();
+        check(fs.canRedo(), "The undone entry cannot be redone");
+        root.addFile("y", { value: 1 });
+        check(!fs.canRedo(), "The undone entry can be redone after a new change");
+    });
+
+    test("the history is limited", () => {
+        const fs = new JournalFileSystem<Data>(new MemoryFileSystem(), 2);
+        const root = Path.getRoot(fs);
+        ["a", "b", "c"].forEach(name => root.addFolder(name));
+        check(fs.undo() && fs.undo(), "Undoing failed");
+        check(!fs.undo(), "More entries than the limit were undone");
+        checkEqual((root.getChildren() || []).map(child => child.getName()), ["a"], "The children after undoing");
+    });
+});
@@ -0,0 +1,47 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { MemoryFileSystem, MountFileSystem, Path } from "../src/index";
+import { check, checkEqual, suite } from "./Test";
+
+type Data = { value: number };
+
+export default suite("MountFileSystem", test => {
+    test("mount names are preserved", () => {
+        const names = ["a", "a:b", ":", "\\", "\\c", "a\\c", "a\\:", "\\\\c", ":c", "constructor", "toString", "__proto__"];
+        const fs = new MountFileSystem<Data>();
+        names.forEach(name => fs.mount(name, new MemoryFileSystem()));
+        const root = fs.getRoot();
+        checkEqual((fs.getChildren(root) || []).map(path => fs.getName(path)), names, "The names of the mount points");
+        names.forEach(name => {
+            const path = fs.getChild(root, name);
+            check(fs.isFolder(path), `The mount point ${name} is not a folder`);
+            check(fs.createFile(fs.getChild(path, "x"), { value: 0 }), `Creating a file in ${name} failed`);
+            checkEqual(fs.getParent(fs.getChild(path, "x")), path, `The parent of the file in ${name}`);
+        });
+    });
+
+    test("names like constructor are not mounted", () => {
+        const root = Path.getRoot(new MountFileSystem<Data>());
+        ["constructor", "toString", "__proto__"].forEach(name => {
+            check(!root.getChild(name).exists(), `The mount point ${name} exists`);
+            checkEqual(root.getChild(name).getChild("x").tryCreateFolder().ok, false, `The result of creating a folder in ${name}`);
+        });
+        checkEqual(root.getChildren(), [], "The children of the root");
+    });
+
+    test("mount points are not deleted", () => {
+        const memory = new MemoryFileSystem<Data>();
+        const fs = new MountFileSystem<Data>({ a: memory });
+        const path = fs.getChild(fs.getRoot(), "a");
+        fs.createFile(fs.getChild(path, "x"), { value: 0 });
+        const result = fs.tryDelete(path);
+        checkEqual(!result.ok && [result.error.code, result.error.path], ["EACCES", path], "The error of delete");
+        check(fs.isFolder(path), "The mount point was deleted");
+        checkEqual((memory.getChildren(memory.getRoot()) || []).length, 1, "The number of files of the mounted file system");
+    });
+});
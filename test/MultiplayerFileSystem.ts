@@ -0,0 +1,145 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { FileSystemEvent, MemoryFileSystem, MultiplayerFileSystem, MultiplayerHandlers, MultiplayerTransport, Result } from "../src/index";
+import { check, checkEqual, suite } from "./Test";
+
+type Data = { value: number };
+
+/**
+    An in-process fake network, in which player 0 is the server. Sent messages are queued until flush is called.
+    Like the game, the server validates each message and delivers the valid ones to all peers in the order they were sent.
+*/
+class LocalNetwork {
+    // the group of each player
+    public readonly groups: { [player: number]: number } = {};
+    private readonly handlers: { [player: number]: MultiplayerHandlers } = {};
+    private readonly queue: { player: number, message: unknown, callback: (result: Result) => void }[] = [];
+
+    public createTransport(player: number): MultiplayerTransport {
+        return {
+            isServer: () => player === 0,
+            getPlayer: () => player,
+            getGroup: player => this.groups[player],
+            register: handlers => this.handlers[player] = handlers,
+            // messages are serialised like game actions
+            send: (message, callback) => this.queue.push({ player: player, message: JSON.parse(JSON.stringify(message)), callback: callback }),
+        };
+    }
+
+    // delivers all queued messages, including the ones that are sent meanwhile
+    public flush(): void {
+        for (let entry = this.queue.shift(); entry; entry = this.queue.shift()) {
+            const { player, message } = entry;
+            const result = this.handlers[0].validate(player, message);
+            result.ok && Object.keys(this.handlers).forEach(peer => this.handlers[Number(peer)].deliver(player, message));
+            entry.callback(result);
+        }
+    }
+}
+
+// gets the names and data of the files in the root of a multiplayer file system
+function list(fs: MultiplayerFileSystem<Data>): { [name: string]: Data | undefined } {
+    const result: { [name: string]: Data | undefined } = {};
+    fs.getChildren("/", children => (children || []).forEach(child => fs.getData(child, data => result[child] = data)));
+    return result;
+}
+
+export default suite("MultiplayerFileSystem", test => {
+    test("clients receive the data of the server", () => {
+        const network = new LocalNetwork();
+        const storage = new MemoryFileSystem<Data>();
+        storage.createFile(storage.getChild(storage.getRoot(), "x"), { value: 0 });
+        const server = new MultiplayerFileSystem<Data>("test", { storage: storage, transport: network.createTransport(0) });
+        const client = new MultiplayerFileSystem<Data>("test", { transport: network.createTransport(1) });
+        check(server.isSynchronised() && !client.isSynchronised(), "The synchronisation before flushing");
+        network.flush();
+        check(client.isSynchronised(), "The client is not synchronised");
+        checkEqual(list(client), { "/x": { value: 0 } }, "The files of the client");
+    });
+
+    test("changes are executed on all peers", () => {
+        const network = new LocalNetwork();
+        const server = new MultiplayerFileSystem<Data>("test", { transport: network.createTransport(0) });
+        const clients = [1, 2].map(player => new MultiplayerFileSystem<Data>("test", { transport: network.createTransport(player) }));
+        network.flush();
+        const events = [] as FileSystemEvent[];
+        clients[1].watch(event => events.push(event));
+
+        const results = [] as Result[];
+        clients[0].createFile("/x", { value: 0 }, result => results.push(result));
+        clients[0].createFile("/x", { value: 1 }, result => results.push(result));
+        checkEqual(list(clients[0]), {}, "The files of the sender before flushing");
+        network.flush();
+        checkEqual(results.map(result => result.ok || result.error.code), [true, "EEXIST"], "The results");
+        [server].concat(clients).forEach((fs, player) => checkEqual(list(fs), { "/x": { value: 0 } }, `The files of player ${player}`));
+        checkEqual(events, [{ type: "created", path: "/x" }], "The events of the other client");
+    });
+
+    test("changes without permission fail", () => {
+        const network = new LocalNetwork();
+        network.groups[1] = 1;
+        const server = new MultiplayerFileSystem<Data>("test", { transport: network.createTransport(0), permissions: { 1: "read" } });
+        const client = new MultiplayerFileSystem<Data>("test", { transport: network.createTransport(1), permissions: { 1: "read" } });
+        network.flush();
+        const results = [] as Result[];
+        client.createFolder("/a", result => results.push(result));
+        network.flush();
+        checkEqual(results.map(result => result.ok || result.error.code), ["EACCES"], "The results");
+        checkEqual(server.getPermission(1), "read", "The permission of the client");
+    });
+
+    test("changes during the synchronisation are not lost", () => {
+        const network = new LocalNetwork();
+        const server = new MultiplayerFileSystem<Data>("test", { transport: network.createTransport(0) });
+        server.createFile("/x", { value: 0 });
+        network.flush();
+        const client = new MultiplayerFileSystem<Data>("test", { transport: network.createTransport(1) });
+        // delivered after the request of the client for the data, but before the data
+        server.createFile("/y", { value: 1 });
+        network.flush();
+        check(client.isSynchronised(), "The client is not synchronised");
+        checkEqual(list(client), { "/x": { value: 0 }, "/y": { value: 1 } }, "The files of the client");
+    });
+
+    test("revisions are checked on the server", () => {
+        const network = new LocalNetwork();
+        const server = new MultiplayerFileSystem<Data>("test", { transport: network.createTransport(0) });
+        const clients = [1, 2].map(player => new MultiplayerFileSystem<Data>("test", { transport: network.createTransport(player) }));
+        server.createFile("/x", { value: 0 });
+        network.flush();
+        const revisions = clients.map(fs => {
+            let revision = "";
+            fs.getMetadata("/x", metadata => revision = metadata ? metadata.revision : "");
+            return revision;
+        });
+
+        // both clients change the file before they receive the change of the other one
+        const results = [] as Result[];
+        clients.forEach((fs, idx) => fs.setData("/x", { value: idx + 1 }, revisions[idx], result => results.push(result)));
+        network.flush();
+        checkEqual(results.map(result => result.ok || result.error.code), [true, "ESTALE"], "The results");
+        [server].concat(clients).forEach((fs, player) => checkEqual(list(fs), { "/x": { value: 1 } }, `The files of player ${player}`));
+    });
+
+    test("invalid messages fail", () => {
+        const network = new LocalNetwork();
+        const server = new MultiplayerFileSystem<Data>("test", { transport: network.createTransport(0) });
+        const transport = network.createTransport(1);
+        const results = [] as Result[];
+        [
+            null,
+            { type: "unknown" },
+            { type: "request", request: { type: "rename", path: "/x", name: 5 } },
+            { type: "request", request: { type: "getData", path: "/x" } },
+            { type: "snapshot", player: 1 },
+        ].forEach(message => transport.send(message, result => results.push(result)));
+        network.flush();
+        checkEqual(results.map(result => result.ok || result.error.code), ["EINVAL", "EINVAL", "EINVAL", "EINVAL", "EINVAL"], "The results");
+        checkEqual(list(server), {}, "The files of the server");
+    });
+});
@@ -0,0 +1,85 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { MemoryFileSystem, Path } from "../src/index";
+import { checkEqual, suite } from "./Test";
+
+type Data = { value: number };
+
+// creates a tree with the folders a, a/b and c and the files a/x, a/b/y and c/z
+function createTree(): Path<Data> {
+    const root = Path.getRoot(new MemoryFileSystem<Data>());
+    const a = root.addFolder("a") as Path<Data>;
+    const b = a.addFolder("b") as Path<Data>;
+    const c = root.addFolder("c") as Path<Data>;
+    a.addFile("x", { value: 0 });
+    b.addFile("y", { value: 1 });
+    c.addFile("z", { value: 2 });
+    return root;
+}
+
+function format(paths: Path<unknown>[]): string[] {
+    return paths.map(path => path.getReference());
+}
+
+export default suite("Path", test => {
+    test("walk visits in depth-first order", () => {
+        const visited = [] as string[];
+        createTree().walk((path, depth) => { visited.push(depth + path.getReference()); });
+        checkEqual(visited, ["0/", "1/a", "2/a/b", "3/a/b/y", "2/a/x", "1/c", "2/c/z"], "The visited paths");
+    });
+
+    test("walk visits in breadth-first order", () => {
+        const visited = [] as string[];
+        createTree().walk(path => { visited.push(path.getReference()); }, "breadthFirst");
+        checkEqual(visited, ["/", "/a", "/c", "/a/b", "/a/x", "/c/z", "/a/b/y"], "The visited paths");
+    });
+
+    test("walk skips the children if the visitor returns false", () => {
+        const visited = [] as string[];
+        createTree().walk(path => {
+            visited.push(path.getReference());
+            return path.getName() !== "a";
+        });
+        checkEqual(visited, ["/", "/a", "/c", "/c/z"], "The visited paths");
+    });
+
+    test("walk does not follow links", () => {
+        const root = createTree();
+        const a = root.getChild("a");
+        a.addLink("loop", a);
+        const visited = [] as string[];
+        a.walk(path => { visited.push(path.getReference()); });
+        checkEqual(visited, ["/a", "/a/b", "/a/b/y", "/a/x", "/a/loop"], "The visited paths");
+    });
+
+    test("find gets the matching descendants", () => {
+        const root = createTree();
+        checkEqual(format(root.find(path => path.isFile())), ["/a/b/y", "/a/x", "/c/z"], "The files");
+        checkEqual(format(root.find(path => (path.getData() || { value: 0 }).value > 0)), ["/a/b/y", "/c/z"], "The files with positive values");
+        checkEqual(format(root.getChild("c").find(() => true)), ["/c/z"], "The descendants of c");
+    });
+
+    test("glob matches names and folders", () => {
+        const root = createTree();
+        checkEqual(format(root.glob("*")), ["/a", "/c"], "*");
+        checkEqual(format(root.glob("a/?")), ["/a/b", "/a/x"], "a/?");
+        checkEqual(format(root.glob("**/y")), ["/a/b/y"], "**/y");
+        checkEqual(format(root.glob("a/**")), ["/a", "/a/b", "/a/b/y", "/a/x"], "a/**");
+        checkEqual(format(root.glob("missing/*")), [], "missing/*");
+    });
+
+    test("glob escapes special characters", () => {
+        const root = Path.getRoot(new MemoryFileSystem<Data>());
+        root.addFile("a*", { value: 0 });
+        root.addFile("ab", { value: 1 });
+        root.addFile("a/b", { value: 2 });
+        checkEqual(format(root.glob("a\\*")), ["/a*"], "a\\*");
+        checkEqual(format(root.glob("a*")).length, 3, "The number of matches of a*");
+        checkEqual(root.glob("a\\/b").map(path => path.getName()), ["a/b"], "a\\/b");
+    });
+});
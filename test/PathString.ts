@@ -0,0 +1,62 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { MemoryFileSystem, Path, ProtocolFileSystem, Request } from "../src/index";
+import { escapeName, parsePath } from "../src/PathString";
+import { check, checkEqual, suite } from "./Test";
+
+type Data = { value: number };
+
+const names = ["", ".", "..", "e", "\\e", "\\", "a\\", "/", "a/b", "\\/", " "];
+
+// a protocol file system that only computes paths
+class PathFileSystem extends ProtocolFileSystem<Data> {
+    protected send(_request: Request<Data>): void { }
+}
+
+export default suite("PathString", test => {
+    test("escaped names are parsed as a single child", () => names.forEach(name => checkEqual(
+        parsePath(escapeName(name)),
+        { absolute: false, segments: [{ type: "child", name: name }] },
+        `The parsed name ${JSON.stringify(name)}`,
+    )));
+
+    test("references of empty names are resolved", () => {
+        const fs = new MemoryFileSystem<Data>();
+        const root = Path.getRoot(fs);
+        const file = (root.addFolder("") as Path<Data>).addFile("", { value: 0 }) as Path<Data>;
+        checkEqual(file.getReference(), "/\\e/\\e", "The reference");
+        const resolved = Path.fromReference(fs, file.getReference());
+        checkEqual(resolved && resolved.getReference(), file.getReference(), "The resolved reference");
+        checkEqual(resolved && resolved.getData(), { value: 0 }, "The data of the resolved reference");
+        const relative = root.resolve("\\e/\\e/../\\e");
+        checkEqual(relative && relative.getData(), { value: 0 }, "The data of the resolved path");
+    });
+
+    test("names are round-tripped through protocol paths", () => {
+        const fs = new PathFileSystem();
+        names.forEach(name => {
+            const parent = fs.getChild(fs.getChild(fs.getRoot(), name), "");
+            const path = fs.getChild(parent, name);
+            checkEqual(fs.getName(path), name, `The name of ${path}`);
+            checkEqual(fs.getParent(path), parent, `The parent of ${path}`);
+            checkEqual(fs.getName(parent), "", `The name of ${parent}`);
+        });
+    });
+
+    test("links to empty names are exported and imported", () => {
+        const a = Path.getRoot(new MemoryFileSystem<Data>()).addFolder("a") as Path<Data>;
+        const file = (a.addFolder("") as Path<Data>).addFile("", { value: 0 }) as Path<Data>;
+        a.addLink("link", file);
+
+        const other = Path.getRoot(new MemoryFileSystem<Data>());
+        other.import(a.export() as string);
+        const link = other.getChild("a").getChild("link");
+        check(link.isLink(), "The link was not imported");
+        checkEqual(link.getData(), { value: 0 }, "The data of the link");
+    });
+});
@@ -0,0 +1,176 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { AsyncFileSystemAdapter, AsyncPath, FileSystem, FileSystemEvent, FileSystemServer, MemoryFileSystem, Request, Result, SocketFileSystem } from "../src/index";
+import { handleRequest } from "../src/Protocol";
+import { check, checkEqual, suite, sync } from "./Test";
+
+type Data = { value: number };
+
+// a socket that is connected in-process to a server, which responds synchronously
+class ServerSocket implements Socket {
+    public readonly server: FileSystemServer<Data>;
+    private readonly handlers: { [event: string]: ((arg: never) => void)[] } = {};
+
+    public constructor(fs: FileSystem<Data>) {
+        this.server = new FileSystemServer(fs, data => this.emit("data", data));
+    }
+
+    public connect(_port: number, _host: string, callback: Function): Socket {
+        callback();
+        return this;
+    }
+
+    public destroy(): Socket {
+        return this.end();
+    }
+
+    public setNoDelay(): Socket {
+        return this;
+    }
+
+    public end(): Socket {
+        this.server.close();
+        this.emit("close", false);
+        return this;
+    }
+
+    public write(data: string): boolean {
+        this.server.receive(data);
+        return true;
+    }
+
+    public on(event: "close" | "error" | "data", callback: (arg: never) => void): Socket {
+        (this.handlers[event] = this.handlers[event] || []).push(callback);
+        return this;
+    }
+
+    public off(event: "close" | "error" | "data", callback: (arg: never) => void): Socket {
+        const handlers = this.handlers[event] || [];
+        handlers.indexOf(callback) !== -1 && handlers.splice(handlers.indexOf(callback), 1);
+        return this;
+    }
+
+    private emit(event: string, arg: unknown): void {
+        (this.handlers[event] || []).forEach(handler => handler(<never>arg));
+    }
+}
+
+export default suite("Protocol", test => {
+    test("requests are executed with references", () => {
+        const fs = new MemoryFileSystem<Data>();
+        checkEqual(handleRequest(fs, { type: "createFile", path: "/a/x", data: { value: 0 } }), { ok: true }, "The result of createFile");
+        checkEqual(handleRequest(fs, { type: "getChildren", path: "/a" }), ["/a/x"], "The children");
+        checkEqual(handleRequest(fs, { type: "getData", path: "/a/x" }), { value: 0 }, "The data");
+        checkEqual(handleRequest(fs, { type: "isFolder", path: "/a" }), true, "isFolder");
+        checkEqual(handleRequest(fs, { type: "createLink", path: "/l", target: "/a/x" }), { ok: true }, "The result of createLink");
+        checkEqual(handleRequest(fs, { type: "getLinkTarget", path: "/l" }), "/a/x", "The link target");
+        const result = <Result>handleRequest(fs, { type: "createFolder", path: "/a/x/y" });
+        checkEqual(!result.ok && [result.error.code, result.error.path], ["ENOTDIR", "/a/x"], "The error of createFolder");
+    });
+
+    test("transactions are atomic", () => {
+        const fs = new MemoryFileSystem<Data>();
+        const result = <Result>handleRequest(fs, {
+            type: "transaction", operations: [
+                { type: "createFolder", path: "/a" },
+                { type: "delete", path: "/b" },
+            ],
+        });
+        checkEqual(!result.ok && result.error.code, "ENOENT", "The error of the transaction");
+        checkEqual(fs.getChildren(fs.getRoot()), [], "The children of the root");
+    });
+
+    test("invalid requests fail", () => {
+        const fs = new MemoryFileSystem<Data>();
+        const requests = [
+            { type: "rename", path: "/a", name: 5 },
+            { type: "unknown", path: "/a" },
+            { type: "exists" },
+            { type: "setOrder", path: "/", children: [0] },
+            { type: "createFile", path: "/a" },
+            { type: "setData", path: "/a" },
+            { type: "transaction", operations: [{ type: "createFolder", path: "/a" }, { type: "delete" }] },
+            null,
+        ];
+        requests.forEach(request => {
+            const result = <Result>handleRequest(fs, <Request<Data>><unknown>request);
+            checkEqual(!result.ok && result.error.code, "EINVAL", `The error of ${JSON.stringify(request)}`);
+        });
+        checkEqual(fs.getChildren(fs.getRoot()), [], "The children of the root");
+    });
+
+    test("the server responds to the messages after an invalid request", () => {
+        const sent = [] as string[];
+        const storage = new MemoryFileSystem<Data>();
+        storage.getRoot();
+        const server = new FileSystemServer(storage, data => sent.push(data));
+        server.receive([
+            null,
+            { id: 0, request: { type: "rename", path: "/a", name: 5 } },
+            { id: 1, request: { type: "createFolder", path: "/a" } },
+        ].map(message => JSON.stringify(message) + "\n").join(""));
+        checkEqual(sent.map(data => JSON.parse(data)), [
+            { id: 0, response: { ok: false, error: { code: "EINVAL", path: "/", message: "Invalid request" } } },
+            { event: { type: "created", path: "/a" } },
+            { id: 1, response: { ok: true } },
+        ], "The sent messages");
+    });
+
+    test("the server responds to the socket file system", () => {
+        const storage = new MemoryFileSystem<Data>();
+        storage.getRoot();
+        const socket = new ServerSocket(storage);
+        const fs = new SocketFileSystem<Data>({ port: 0, createSocket: () => socket });
+        const root = AsyncPath.getRoot(fs);
+        const events = [] as FileSystemEvent[];
+        fs.watch(event => events.push(event));
+
+        check(fs.isConnected(), "The file system is not connected");
+        checkEqual(sync<Result>(callback => root.getChild("x").createFile({ value: 0 }, callback)), { ok: true }, "The result of createFile");
+        checkEqual(sync(callback => root.getChild("x").getData(callback)), { value: 0 }, "The data");
+        checkEqual(storage.getData(storage.getChild(storage.getRoot(), "x")), { value: 0 }, "The data of the storage");
+        checkEqual(events, [{ type: "created", path: "/x" }], "The events");
+
+        storage.delete(storage.getChild(storage.getRoot(), "x"));
+        checkEqual(events[1], { type: "deleted", path: "/x" }, "The event of a change of the storage");
+    });
+
+    test("the socket file system fails after closing", () => {
+        const fs = new SocketFileSystem<Data>({ port: 0, createSocket: () => new ServerSocket(new MemoryFileSystem()) });
+        fs.close();
+        check(!fs.isConnected(), "The file system is connected");
+        const result = sync<Result>(callback => fs.createFolder("/a", callback));
+        checkEqual(!result.ok && result.error.code, "EIO", "The error after closing");
+        checkEqual(sync(callback => fs.exists("/", callback)), false, "exists after closing");
+    });
+
+    test("messages are split into chunks", () => {
+        const sent = [] as string[];
+        const storage = new MemoryFileSystem<Data>();
+        storage.getRoot();
+        const server = new FileSystemServer(storage, data => sent.push(data));
+        const messages = JSON.stringify({ id: 0, request: { type: "createFolder", path: "/a" } }) + "\n"
+            + JSON.stringify({ id: 1, request: { type: "isFolder", path: "/a" } }) + "\n";
+        for (let idx = 0; idx < messages.length; idx += 7)
+            server.receive(messages.slice(idx, idx + 7));
+        checkEqual(sent.map(data => JSON.parse(data)), [
+            { event: { type: "created", path: "/a" } },
+            { id: 0, response: { ok: true } },
+            { id: 1, response: true },
+        ], "The sent messages");
+    });
+
+    test("the adapter executes requests on a file system", () => {
+        const storage = new MemoryFileSystem<Data>();
+        const root = AsyncPath.getRoot(new AsyncFileSystemAdapter(storage));
+        root.getChild("a").createFolder();
+        const children = sync<AsyncPath<Data>[] | undefined>(callback => root.getChildren(callback)) || [];
+        checkEqual(children.map(child => child.getReference()), ["/a"], "The children");
+        check(storage.isFolder(storage.getChild(storage.getRoot(), "a")), "The folder was not created");
+    });
+});
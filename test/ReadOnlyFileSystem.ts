@@ -0,0 +1,51 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { JsonFileSystem, mockContext, Path, ReadOnlyFileSystem } from "../src/index";
+import { check, checkEqual, suite } from "./Test";
+
+type Data = { value: number };
+
+export default suite("ReadOnlyFileSystem", test => {
+    test("the missing root folder is not created", () => {
+        const storage = mockContext().sharedStorage;
+        const root = Path.getRoot(new ReadOnlyFileSystem(new JsonFileSystem<Data>("test.readonly")));
+        check(root.exists() && root.isFolder(), "The root is not a folder");
+        checkEqual((root.getChildren() || []).length, 0, "The number of children of the root");
+        checkEqual(root.getData(), undefined, "The data of the root");
+        check(root.getMetadata() !== undefined, "The root has no metadata");
+        checkEqual(root.getChild("x").tryCreateFile({ value: 0 }).ok, false, "The result of createFile");
+        checkEqual(storage.stringify(), "{}", "The storage");
+    });
+
+    test("upgraded data is not written back", () => {
+        const storage = mockContext().sharedStorage;
+        const path = ".x";
+        new JsonFileSystem<Data>("test.readonly").createFile(path, { value: 0 });
+        const before = storage.stringify();
+        const fs = new ReadOnlyFileSystem(new JsonFileSystem<Data>("test.readonly", {
+            schema: { version: 1, migrations: { 0: data => ({ value: (<Data>data).value + 1 }) }, writeBack: true },
+        }));
+        checkEqual(fs.getData(path), { value: 1 }, "The upgraded data");
+        checkEqual(storage.stringify(), before, "The storage");
+    });
+
+    test("invalid data is not dropped or quarantined", () => {
+        (["drop", "quarantine"] as const).forEach(policy => {
+            const storage = mockContext().sharedStorage;
+            const path = ".x";
+            new JsonFileSystem<unknown>("test.readonly").createFile(path, "invalid");
+            const before = storage.stringify();
+            const fs = new ReadOnlyFileSystem(new JsonFileSystem<Data>("test.readonly", {
+                validation: { validator: (data): data is Data => typeof data === "object", policy: policy },
+            }));
+            checkEqual(fs.getData(path), undefined, `The invalid data (${policy})`);
+            check(fs.isFile(path), `The file does not exist (${policy})`);
+            checkEqual(storage.stringify(), before, `The storage (${policy})`);
+        });
+    });
+});
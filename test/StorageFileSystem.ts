@@ -0,0 +1,295 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { ConfigurationMock, JsonFileSystem, MemoryFileSystem, Metadata, mockContext } from "../src/index";
+import { check, checkEqual, suite } from "./Test";
+
+type Data = { value: number };
+
+// records the keys that are read from the storage
+class RecordingConfiguration extends ConfigurationMock {
+    public readonly keys: string[] = [];
+
+    public get<T>(key: string, defaultValue?: T): T | undefined {
+        this.keys.push(key);
+        return defaultValue === undefined ? super.get<T>(key) : super.get<T>(key, defaultValue);
+    }
+}
+
+export default suite("StorageFileSystem", test => {
+    // SCHEMA MIGRATION
+
+    test("files with a newer schema version are kept", () => {
+        mockContext();
+        const path = ".x";
+        new JsonFileSystem<Data>("test.schema", { schema: { version: 2, migrations: {} } }).createFile(path, { value: 0 });
+        const fs = new JsonFileSystem<Data>("test.schema", { schema: { version: 1, migrations: { 0: data => data }, writeBack: true } });
+        checkEqual(fs.getData(path), undefined, "The data of the newer file");
+        check(fs.isFile(path), "The newer file was deleted");
+        checkEqual(fs.migrateAll(), 0, "The number of migrated files");
+        check(fs.isFile(path), "The newer file was deleted by migrateAll");
+    });
+
+    test("migrations do not modify the stored data", () => {
+        mockContext();
+        // a migration that modifies its argument
+        const migration = (data: unknown) => {
+            (<Data>data).value++;
+            return data;
+        };
+        [false, true].forEach(cache => {
+            const namespace = `test.migration${cache ? "cache" : ""}`;
+            const path = ".x";
+            new JsonFileSystem<Data>(namespace).createFile(path, { value: 0 });
+            const fs = new JsonFileSystem<Data>(namespace, { cache: cache, schema: { version: 1, migrations: { 0: migration } } });
+            checkEqual(fs.getData(path), { value: 1 }, `The data when read the first time (cache: ${cache})`);
+            checkEqual(fs.getData(path), { value: 1 }, `The data when read the second time (cache: ${cache})`);
+            checkEqual(fs.migrateAll(), 1, `The number of migrated files (cache: ${cache})`);
+            checkEqual(new JsonFileSystem<Data>(namespace).getData(path), { value: 1 }, `The data after migrateAll (cache: ${cache})`);
+        });
+    });
+
+
+    test("migrations do not change the revision", () => {
+        const storage = mockContext().sharedStorage;
+        const path = ".x";
+        new JsonFileSystem<Data>("test.revision").createFile(path, { value: 0 });
+        const fs = new JsonFileSystem<Data>("test.revision", { schema: { version: 1, migrations: { 0: data => data }, writeBack: true } });
+        const revision = (fs.getMetadata(path) as { revision: string }).revision;
+        checkEqual(fs.getData(path), { value: 0 }, "The data");
+        checkEqual(storage.get("test.revision.files.x.version"), 1, "The version after writing back");
+        checkEqual((fs.getMetadata(path) as { revision: string }).revision, revision, "The revision after writing back");
+        checkEqual(fs.trySetData(path, { value: 1 }, revision).ok, true, "The result with the revision before writing back");
+        const result = fs.trySetData(path, { value: 2 }, revision);
+        checkEqual(!result.ok && result.error.code, "ESTALE", "The result with an old revision");
+    });
+
+
+    // STORED VALUES
+
+    test("written values are not shared with the storage", () => {
+        const storage = mockContext().sharedStorage;
+        const fs = new JsonFileSystem<Data>("test.values");
+        const x = fs.getChild(fs.getRoot(), "x");
+        const data = { value: 0 };
+        const attributes = { author: "Sadret" };
+        fs.createFile(x, data);
+        fs.setAttributes(x, attributes);
+        data.value = 1;
+        attributes.author = "";
+        checkEqual(storage.get("test.values.files.x.content"), { value: 0 }, "The stored data");
+        checkEqual(storage.get("test.values.files.x.attributes"), { author: "Sadret" }, "The stored attributes");
+    });
+
+
+    test("read values are not shared with the storage", () => {
+        [false, true].forEach(cache => {
+            const storage = mockContext().sharedStorage;
+            const fs = new JsonFileSystem<Data>("test.values", { cache: cache });
+            const x = fs.getChild(fs.getRoot(), "x");
+            fs.createFile(x, { value: 0 });
+            fs.setAttributes(x, { author: "Sadret" });
+            (<Data>fs.getData(x)).value = 1;
+            (<Metadata>fs.getMetadata(x)).attributes.author = "";
+            checkEqual(storage.get("test.values.files.x.content"), { value: 0 }, `The stored data (cache: ${cache})`);
+            checkEqual(storage.get("test.values.files.x.attributes"), { author: "Sadret" }, `The stored attributes (cache: ${cache})`);
+            checkEqual(fs.getData(x), { value: 0 }, `The read data (cache: ${cache})`);
+        });
+    });
+
+
+    // KEYS
+
+    test("files with legacy keys of names like constructor are found", () => {
+        const storage = mockContext().sharedStorage;
+        // stored before names like "constructor" were prefixed
+        storage.set("test.legacy", { type: "folder", files: { constructor: { type: "file", content: { value: 0 } } } });
+        const fs = new JsonFileSystem<Data>("test.legacy");
+        const path = fs.getChild(fs.getRoot(), "constructor");
+        checkEqual(fs.getData(path), { value: 0 }, "The data of the legacy file");
+        checkEqual(fs.getChildren(fs.getRoot()), [path], "The children of the root");
+        const result = fs.tryCreateFile(path, { value: 1 });
+        checkEqual(!result.ok && result.error.code, "EEXIST", "The error of createFile");
+        check(fs.rename(path, "toString"), "Renaming the legacy file failed");
+        checkEqual(fs.getChildren(fs.getRoot()), [fs.getChild(fs.getRoot(), "toString")], "The children after renaming");
+        checkEqual(Object.keys(storage.get<{ files: object }>("test.legacy", { files: {} }).files), ["\\ptoString"], "The stored keys");
+    });
+
+
+    // TRASH
+
+    test("deleted files are restored from the trash", () => {
+        const fs = new MemoryFileSystem<Data>({ trash: true });
+        const a = fs.getChild(fs.getRoot(), "a");
+        const x = fs.getChild(a, "x");
+        fs.createFile(x, { value: 0 });
+        fs.delete(x);
+        fs.delete(a);
+
+        const trash = fs.getTrash();
+        checkEqual(trash.map(entry => [entry.path, entry.name, entry.isFolder]), [[x, "x", false], [a, "a", true]], "The trash");
+        checkEqual(fs.restore(trash[0].id), x, "The path of the restored file");
+        checkEqual(fs.getData(x), { value: 0 }, "The data of the restored file");
+        checkEqual(fs.getTrash().length, 1, "The number of entries after restoring");
+        checkEqual(fs.restore(trash[0].id), undefined, "The path of a restored entry restored again");
+    });
+
+    test("restored files get a new name if the path exists", () => {
+        const fs = new MemoryFileSystem<Data>({ trash: true });
+        const x = fs.getChild(fs.getRoot(), "x");
+        fs.createFile(x, { value: 0 });
+        fs.delete(x);
+        fs.createFile(x, { value: 1 });
+        const restored = fs.restore(fs.getTrash()[0].id);
+        checkEqual(restored, fs.getChild(fs.getRoot(), "x (2)"), "The path of the restored file");
+        checkEqual(restored && fs.getData(restored), { value: 0 }, "The data of the restored file");
+        checkEqual(fs.getData(x), { value: 1 }, "The data of the existing file");
+    });
+
+    test("the trash is emptied", () => {
+        const fs = new MemoryFileSystem<Data>({ trash: true });
+        ["x", "y"].forEach(name => {
+            const path = fs.getChild(fs.getRoot(), name);
+            fs.createFile(path, { value: 0 });
+            fs.delete(path);
+        });
+        checkEqual(fs.emptyTrash(1e9), 0, "The number of entries that are older than the age");
+        checkEqual(fs.emptyTrash(), 2, "The number of emptied entries");
+        checkEqual(fs.getTrash(), [], "The trash");
+        checkEqual(fs.getChildren(fs.getRoot()), [], "The children of the root");
+    });
+
+    test("the trash is kept when the attributes of the root folder are set", () => {
+        mockContext();
+        const fs = new JsonFileSystem<Data>("test.trash", { trash: true });
+        const x = fs.getChild(fs.getRoot(), "x");
+        fs.createFile(x, { value: 0 });
+        fs.delete(x);
+        fs.setAttributes(fs.getRoot(), { author: "Sadret" });
+        checkEqual(fs.getTrash().length, 1, "The number of entries");
+    });
+
+    test("the trash is kept when the files are migrated", () => {
+        mockContext();
+        const fs = new JsonFileSystem<Data>("test.trash", { trash: true });
+        ["x", "y"].forEach(name => fs.createFile(fs.getChild(fs.getRoot(), name), { value: 0 }));
+        fs.delete(fs.getChild(fs.getRoot(), "x"));
+        const migrated = new JsonFileSystem<Data>("test.trash", { trash: true, schema: { version: 1, migrations: { 0: data => data } } });
+        checkEqual(migrated.migrateAll(), 1, "The number of migrated files");
+        checkEqual(migrated.getTrash().length, 1, "The number of entries");
+    });
+
+    test("the trash is rolled back with transactions", () => {
+        const fs = new MemoryFileSystem<Data>({ trash: true });
+        const x = fs.getChild(fs.getRoot(), "x");
+        fs.createFile(x, { value: 0 });
+        fs.transaction(() => {
+            fs.delete(x);
+            return false;
+        });
+        checkEqual(fs.getTrash(), [], "The trash");
+        check(fs.isFile(x), "The file was deleted");
+    });
+
+
+    // CACHE
+
+    test("the cache only reads the revision from the storage", () => {
+        const storage = new RecordingConfiguration();
+        mockContext(storage);
+        const fs = new JsonFileSystem<Data>("test.cache", { cache: true });
+        const x = fs.getChild(fs.getRoot(), "x");
+        fs.createFile(x, { value: 0 });
+        fs.getData(x);
+
+        storage.keys.length = 0;
+        checkEqual(fs.getData(x), { value: 0 }, "The data");
+        checkEqual(fs.getChildren(fs.getRoot()), [x], "The children of the root");
+        check(storage.keys.every(key => key === "test.cache.revision"), `Read keys ${storage.keys.join(", ")}`);
+    });
+
+    test("the cache stores its revision in the root folder", () => {
+        const storage = mockContext().sharedStorage;
+        const fs = new JsonFileSystem<Data>("test.cache", { cache: true });
+        fs.createFile(fs.getChild(fs.getRoot(), "x"), { value: 0 });
+        checkEqual(Object.keys(storage.getAll("test")), ["cache"], "The keys of the namespace test");
+        check(typeof storage.get("test.cache.revision") === "string", "The revision was not stored");
+    });
+
+    test("the cache is reloaded after changes by other instances", () => {
+        mockContext();
+        const fst = new JsonFileSystem<Data>("test.cache", { cache: true });
+        const snd = new JsonFileSystem<Data>("test.cache", { cache: true });
+        const x = fst.getChild(fst.getRoot(), "x");
+        fst.createFile(x, { value: 0 });
+        checkEqual(snd.getData(x), { value: 0 }, "The data of the second instance");
+        snd.setData(x, { value: 1 });
+        checkEqual(fst.getData(x), { value: 1 }, "The data of the first instance");
+    });
+
+    test("the cache is invalidated", () => {
+        const storage = mockContext().sharedStorage;
+        const fs = new JsonFileSystem<Data>("test.cache", { cache: true });
+        const x = fs.getChild(fs.getRoot(), "x");
+        fs.createFile(x, { value: 0 });
+        fs.getData(x);
+        // changes without a file system do not change the revision
+        storage.set("test.cache.files.x.content", { value: 1 });
+        checkEqual(fs.getData(x), { value: 0 }, "The data before invalidating");
+        fs.invalidateCache();
+        checkEqual(fs.getData(x), { value: 1 }, "The data after invalidating");
+    });
+
+    test("the cache is rolled back with transactions", () => {
+        const fs = new MemoryFileSystem<Data>({ cache: true });
+        const x = fs.getChild(fs.getRoot(), "x");
+        fs.createFile(x, { value: 0 });
+        fs.transaction(() => {
+            fs.setData(x, { value: 1 });
+            checkEqual(fs.getData(x), { value: 1 }, "The data in the transaction");
+            return false;
+        });
+        checkEqual(fs.getData(x), { value: 0 }, "The data after the transaction");
+    });
+
+
+    // CHANGE DETECTION
+
+    test("unchanged storage is detected by the root only", () => {
+        const storage = new RecordingConfiguration();
+        mockContext(storage);
+        const fs = new JsonFileSystem<Data>("test.detect", { cache: true });
+        const x = fs.getChild(fs.getRoot(), "x");
+        fs.createFile(x, { value: 0 });
+        fs.detectChanges();
+        fs.detectChanges();
+
+        storage.keys.length = 0;
+        checkEqual(fs.detectChanges(), 0, "The number of changes");
+        checkEqual(fs.getData(x), { value: 0 }, "The data");
+        checkEqual(storage.keys, ["test.detect", "test.detect.revision"], "The read keys");
+    });
+
+    test("external changes are detected", () => {
+        const storage = mockContext().sharedStorage;
+        const fs = new JsonFileSystem<Data>("test.detect");
+        const x = fs.getChild(fs.getRoot(), "x");
+        fs.createFile(x, { value: 0 });
+        const events = [] as string[];
+        fs.watch(event => events.push(event.type));
+        fs.detectChanges();
+
+        storage.set("test.detect.files.x.content", { value: 1 });
+        checkEqual(fs.detectChanges(), 1, "The number of external changes");
+        // an external change that reverts a change made by the file system
+        fs.setData(x, { value: 2 });
+        storage.set("test.detect.files.x.content", { value: 1 });
+        checkEqual(fs.detectChanges(), 1, "The number of reverting changes");
+        checkEqual(fs.detectChanges(), 0, "The number of changes without changes");
+        checkEqual(events, ["dataChanged", "dataChanged", "dataChanged"], "The events");
+    });
+});
@@ -0,0 +1,36 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+import { ConformanceTest } from "../src/index";
+
+export { check, checkEqual } from "../src/Conformance";
+
+/** A named group of tests, e.g. of a module. */
+export interface Suite {
+    name: string;
+    tests: ConformanceTest[];
+}
+
+/** Defines a suite, whose tests are added by calling test. */
+export function suite(name: string, define: (test: (name: string, run: () => void) => void) => void): Suite {
+    const tests = [] as ConformanceTest[];
+    define((name, run) => tests.push({ name: name, run: run }));
+    return { name: name, tests: tests };
+}
+
+/** Collects the results of asynchronous callbacks that are called synchronously, e.g. by an in-process connection. */
+export function sync<S>(operation: (callback: (value: S) => void) => void): S {
+    let called = false;
+    let result: S | undefined = undefined;
+    operation(value => {
+        called = true;
+        result = value;
+    });
+    if (!called)
+        throw new Error("The callback was not called synchronously");
+    return <S>result;
+}
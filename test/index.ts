@@ -0,0 +1,58 @@
+/*****************************************************************************
+ * Copyright (c) 2023 Sadret
+ *
+ * The OpenRCT2 plugin library "Persistence" is licensed
+ * under the GNU General Public License version 3.
+ *****************************************************************************/
+
+/// <reference path="./../../openrct2.d.ts" />
+
+import { ConformanceFailure, ConformanceOptions, FileSystem, FileSystemWrapper, JournalFileSystem, JsonFileSystem, MemoryFileSystem, mockContext, MountFileSystem, ParkFileSystem, QuotaFileSystem, runConformanceTests } from "../src/index";
+import { runTests } from "../src/Conformance";
+import codec from "./Codec";
+import exchange from "./Exchange";
+import fileDialog from "./FileDialog";
+import journal from "./JournalFileSystem";
+import mount from "./MountFileSystem";
+import multiplayer from "./MultiplayerFileSystem";
+import path from "./Path";
+import pathString from "./PathString";
+import protocol from "./Protocol";
+import readOnly from "./ReadOnlyFileSystem";
+import storage from "./StorageFileSystem";
+
+type Data = { value: number };
+
+mockContext();
+
+let count = 0;
+const suites: { [name: string]: [() => FileSystem<Data>, ConformanceOptions<Data>?] } = {
+    "MemoryFileSystem": [() => new MemoryFileSystem()],
+    "MemoryFileSystem (cache)": [() => new MemoryFileSystem({ cache: true })],
+    "MemoryFileSystem (trash)": [() => new MemoryFileSystem({ trash: true })],
+    // each file system gets a new namespace, such that it is empty
+    "JsonFileSystem": [() => new JsonFileSystem(`test.json${count++}`)],
+    "JsonFileSystem (cache)": [() => new JsonFileSystem(`test.json${count++}`, { cache: true })],
+    "ParkFileSystem": [() => new ParkFileSystem(`test.park${count++}`)],
+    "MountFileSystem": [
+        () => new MountFileSystem({ mounted: new MemoryFileSystem() }),
+        { getFolder: fs => fs.getChild(fs.getRoot(), "mounted") },
+    ],
+    "FileSystemWrapper": [() => new FileSystemWrapper(new MemoryFileSystem())],
+    "JournalFileSystem": [() => new JournalFileSystem(new MemoryFileSystem())],
+    "QuotaFileSystem": [() => new QuotaFileSystem(new MemoryFileSystem(), { maxSize: 1e6, maxEntries: 1e3, maxDepth: 64, maxNameLength: 64 })],
+};
+
+let failed = 0;
+const report = (name: string, failures: ConformanceFailure[]) => {
+    failures.forEach(failure => console.log(`${name}: ${failure.name}: ${failure.message}`));
+    console.log(`${name}: ${failures.length === 0 ? "passed" : failures.length + " failed"}`);
+    failed += failures.length;
+};
+Object.keys(suites).forEach(name => report(name, runConformanceTests(suites[name][0], suites[name][1])));
+
+// tests of the features beyond the contract of FileSystem
+[path, pathString, exchange, journal, mount, readOnly, codec, storage, protocol, multiplayer, fileDialog].forEach(suite => report(suite.name, runTests(suite.tests)));
+
+if (failed > 0)
+    throw new Error(`${failed} tests failed.`);